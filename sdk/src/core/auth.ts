@@ -1,82 +1,152 @@
 /**
  * 인증 API + 인증 상태 캐시.
  * checkAuth() 는 앱에서 여러 번 불려도 실제 /account/info 요청은 1회로 합쳐진다.
+ * 캐시·탭 동기화는 클라이언트 인스턴스마다 독립이다(createAuthApi 1회 = 캐시 1벌).
  */
-import { request, BaasError } from "./http";
-import { getProjectId } from "./config";
-import type { AccountInfo, AuthState, SignupOptions, TokenResponse } from "./types";
+import { BaasError } from "./http";
+import type { CallOptions } from "./http";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
+import { createAuthSync } from "./authSync";
+import type {
+  AccountInfo,
+  AuthState,
+  SignupOptions,
+  TokenResponse,
+} from "./types";
 
-export async function signup(
-  userId: string,
-  userPw: string,
-  name: string,
-  phone: string,
-  options: SignupOptions = {}
-): Promise<AccountInfo> {
-  return request<AccountInfo>("/account/signup-project", {
-    method: "POST",
-    body: { user_id: userId, user_pw: userPw, name, phone, project_id: getProjectId(), ...options },
-  });
-}
+export function createAuthApi(ctx: ClientContext) {
+  const { request, getProjectId } = ctx;
+  const sync = createAuthSync(ctx);
 
-export async function login(userId: string, userPw: string): Promise<TokenResponse> {
-  const data = await request<TokenResponse>("/account/login", {
-    method: "POST",
-    body: { user_id: userId, user_pw: userPw, project_id: getProjectId() },
-  });
-  clearAuthCache();
-  return data;
-}
+  async function signup(
+    userId: string,
+    userPw: string,
+    name: string,
+    phone: string,
+    options: SignupOptions = {},
+    call: CallOptions = {}
+  ): Promise<AccountInfo> {
+    return request<AccountInfo>("/account/signup-project", {
+      method: "POST",
+      body: { user_id: userId, user_pw: userPw, name, phone, project_id: getProjectId(), ...options },
+      ...call,
+    });
+  }
 
-export async function logout(): Promise<void> {
-  await request<unknown>("/account/logout", { method: "POST" });
-  clearAuthCache();
-}
+  async function login(userId: string, userPw: string, call: CallOptions = {}): Promise<TokenResponse> {
+    const data = await request<TokenResponse>("/account/login", {
+      method: "POST",
+      body: { user_id: userId, user_pw: userPw, project_id: getProjectId() },
+      ...call,
+    });
+    resetSession();
+    sync.broadcast("login");
+    return data;
+  }
 
-export async function getAccountInfo(): Promise<AccountInfo> {
-  return request<AccountInfo>("/account/info", { method: "GET", allow401: true });
-}
+  async function logout(call: CallOptions = {}): Promise<void> {
+    await request<unknown>("/account/logout", { method: "POST", ...call });
+    resetSession();
+    sync.broadcast("logout");
+  }
 
-export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
-  await request<unknown>("/account/profile/change-password", {
-    method: "POST",
-    body: { current_password: currentPassword, new_password: newPassword },
-  });
-}
+  async function getAccountInfo(call: CallOptions = {}): Promise<AccountInfo> {
+    return request<AccountInfo>("/account/info", { method: "GET", allow401: true, ...call });
+  }
 
-// ── 인증 상태 캐시 (화면마다 /account/info 반복 방지) ──
-let authCache: AuthState | null = null;
-let authCachePromise: Promise<AuthState> | null = null;
+  async function changePassword(
+    currentPassword: string,
+    newPassword: string,
+    call: CallOptions = {}
+  ): Promise<void> {
+    await request<unknown>("/account/profile/change-password", {
+      method: "POST",
+      body: { current_password: currentPassword, new_password: newPassword },
+      ...call,
+    });
+  }
 
-export function clearAuthCache(): void {
-  authCache = null;
-  authCachePromise = null;
-}
+  // ── 인증 상태 캐시 (화면마다 /account/info 반복 방지) ──
+  let authCache: AuthState | null = null;
+  let authCachePromise: Promise<AuthState> | null = null;
 
-/**
- * 로그인 상태 확인. 비로그인 401 은 에러가 아닌 { isLoggedIn: false } 정상 신호.
- */
-export async function checkAuth(options: { force?: boolean } = {}): Promise<AuthState> {
-  if (options.force) clearAuthCache();
-  if (authCache) return authCache;
-  if (authCachePromise) return authCachePromise;
+  function clearAuthCache(): void {
+    authCache = null;
+    authCachePromise = null;
+  }
+
+  /**
+   * 인증 전환(로그인·로그아웃·세션 만료·다른 탭 변화) — 인증 캐시와 함께 조회 캐시도 비운다.
+   * 이전 사용자로 받은 응답(숨김·회원 전용 글 등)이 다음 사용자에게 보이지 않게.
+   */
+  function resetSession(): void {
+    clearAuthCache();
+    ctx.invalidate();
+  }
+
+  // 로그인 중이던 인스턴스의 401 만 세션 만료 — 캐시된 로그인 상태를 버리고(다음 checkAuth 가 재조회) 다른 탭에도 알린다.
+  // 비로그인 방문자의 401(require_login 게시글 등)은 로그인 필요일 뿐 — 이벤트도 다른 탭 로그아웃도 없다.
+  // 동시에 실패한 요청들은 첫 번째가 캐시를 비우므로 한 번만 알린다.
+  ctx.on("unauthorized", (info) => {
+    if (!authCache?.isLoggedIn) return;
+    resetSession();
+    ctx.emit("session-expired", info);
+    sync.broadcast("session-expired");
+  });
+  // 다른 탭의 로그인/로그아웃 → 이 탭의 캐시도 무효
+  ctx.on("auth-sync", resetSession);
+
+  /**
+   * 로그인 상태 확인. 비로그인 401 은 에러가 아닌 { isLoggedIn: false } 정상 신호.
+   * 조회 1건을 여러 호출부가 공유하므로 signal 은 받지 않는다(한 화면의 취소가 다른 화면을 깨지 않게).
+   */
+  async function checkAuth(options: { force?: boolean; timeoutMs?: number } = {}): Promise<AuthState> {
+    if (options.force) clearAuthCache();
+    if (authCache) return authCache;
+    if (authCachePromise) return authCachePromise;
 
-  authCachePromise = (async () => {
-    try {
-      const user = await getAccountInfo();
-      authCache = { isLoggedIn: true, user };
-    } catch (e) {
-      if (e instanceof BaasError && e.status === 401) {
-        authCache = { isLoggedIn: false, user: null };
-      } else {
+    authCachePromise = (async () => {
+      try {
+        const user = await getAccountInfo({ timeoutMs: options.timeoutMs });
+        authCache = { isLoggedIn: true, user };
+      } catch (e) {
+        if (e instanceof BaasError && e.status === 401) {
+          authCache = { isLoggedIn: false, user: null };
+        } else {
+          authCachePromise = null;
+          throw e; // 네트워크/서버 오류는 삼키지 않는다 (호출부가 재시도/에러 UI 판단)
+        }
+      } finally {
         authCachePromise = null;
-        throw e; // 네트워크/서버 오류는 삼키지 않는다 (호출부가 재시도/에러 UI 판단)
       }
-    } finally {
-      authCachePromise = null;
-    }
-    return authCache!;
-  })();
+      return authCache!;
+    })();
 
-  return authCachePromise;
+    return authCachePromise;
+  }
+
+  return {
+    signup,
+    login,
+    logout,
+    getAccountInfo,
+    changePassword,
+    checkAuth,
+    clearAuthCache,
+    startAuthSync: sync.start,
+    stopAuthSync: sync.stop,
+  };
 }
+
+export const {
+  signup,
+  login,
+  logout,
+  getAccountInfo,
+  changePassword,
+  checkAuth,
+  clearAuthCache,
+  startAuthSync,
+  stopAuthSync,
+} = createAuthApi(defaultContext);
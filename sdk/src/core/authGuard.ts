@@ -0,0 +1,36 @@
+/**
+ * 화면 접근 판정 — 로그인 여부·계정 상태·프로필 완성·앱 조건(when)을 순서대로 본다.
+ * React 가드(RequireAuth·useAuthGuard)가 쓰는 순수 부분. 서버 권한 검사를 대신하지 않는다(화면 분기용).
+ */
+import type { AccountInfo } from "./types";
+
+/** 거절 사유 — 화면마다 다른 안내/이동을 고른다 */
+export type AuthDenyReason = "unauthenticated" | "inactive" | "profile-incomplete" | "forbidden";
+
+export interface AuthGuardRules {
+  /** 앱 조건(등급·data 필드 등). false 면 "forbidden" */
+  when?: (user: AccountInfo) => boolean;
+  /** is_profile_completed 가 false 면 "profile-incomplete"(소셜 가입 직후 등) */
+  requireProfile?: boolean;
+  /**
+   * 이 AccountInfo.status 값이면 "inactive"(대소문자 무관, 예: ["suspended", "dormant"]).
+   * 기본은 상태를 보지 않는다 — 상태 값은 프로젝트마다 달라서, 막을 값을 아는 화면만 지정한다
+   */
+  blockedStatuses?: string[];
+}
+
+/** status 가 목록에 있으면 true. 목록에 없는 값이거나 응답에 status 가 빠졌으면(런타임) false */
+export function isAccountBlocked(user: AccountInfo, statuses: string[]): boolean {
+  if (typeof user.status !== "string") return false;
+  const status = user.status.toLowerCase();
+  return statuses.some((s) => s.toLowerCase() === status);
+}
+
+/** 통과하면 null. 여러 사유가 겹치면 앞의 것 — 비로그인 → 계정 상태(blockedStatuses 지정 시) → 프로필 → when */
+export function authDenyReason(user: AccountInfo | null, rules: AuthGuardRules = {}): AuthDenyReason | null {
+  if (!user) return "unauthenticated";
+  if (rules.blockedStatuses && isAccountBlocked(user, rules.blockedStatuses)) return "inactive";
+  if (rules.requireProfile && user.is_profile_completed === false) return "profile-incomplete";
+  if (rules.when && !rules.when(user)) return "forbidden";
+  return null;
+}
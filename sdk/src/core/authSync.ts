@@ -0,0 +1,75 @@
+/**
+ * 탭 간 인증 상태 동기화 — 한 탭의 로그인/로그아웃/세션 만료를 같은 프로젝트의 다른 탭에 알린다.
+ * authCache·AuthProvider 상태는 창(window)마다 따로라, 알리지 않으면 다른 탭은 계속 로그인으로 보인다.
+ * BroadcastChannel 우선, 없으면 localStorage storage 이벤트로 폴백. 수신 탭은 "auth-sync" 이벤트를 받는다.
+ */
+import type { ClientContext } from "./context";
+import type { AuthSyncType } from "./events";
+import { localStore, writeJson } from "./storage";
+
+export interface AuthSync {
+  /**
+   * 동기화 시작(멱등). AuthProvider 가 마운트 시 호출한다 — 시작한 탭만 송수신에 참여한다.
+   * init() 이후에 호출해야 한다(채널 이름에 project_id 사용).
+   */
+  start(): void;
+  stop(): void;
+  /** 다른 탭에 인증 변화 알림(자기 탭엔 전달되지 않는다). 동기화 미시작이면 무시 */
+  broadcast(type: AuthSyncType): void;
+}
+
+export function createAuthSync(ctx: ClientContext): AuthSync {
+  let channel: BroadcastChannel | null = null;
+  let storageListener: ((e: StorageEvent) => void) | null = null;
+  let started = false;
+
+  const syncKey = () => `baas-auth-sync:${ctx.getProjectId()}`;
+
+  function receive(msg: unknown): void {
+    const type = (msg as { type?: unknown } | null)?.type;
+    if (type === "login" || type === "logout" || type === "session-expired") {
+      ctx.emit("auth-sync", { type });
+    }
+  }
+
+  return {
+    start() {
+      if (started || typeof window === "undefined") return;
+      started = true;
+      const key = syncKey();
+      if (typeof BroadcastChannel !== "undefined") {
+        channel = new BroadcastChannel(key);
+        channel.onmessage = (e) => receive(e.data);
+      } else if (localStore()) {
+        storageListener = (e) => {
+          if (e.key !== key || !e.newValue) return;
+          try {
+            receive(JSON.parse(e.newValue));
+          } catch {
+            // 다른 코드가 같은 키를 쓴 경우 무시
+          }
+        };
+        window.addEventListener("storage", storageListener);
+      }
+    },
+
+    stop() {
+      channel?.close();
+      channel = null;
+      if (storageListener) window.removeEventListener("storage", storageListener);
+      storageListener = null;
+      started = false;
+    },
+
+    broadcast(type) {
+      if (!started) return;
+      if (channel) {
+        channel.postMessage({ type });
+        return;
+      }
+      // storage 이벤트는 값이 바뀔 때만 발생 — 같은 type 연속 전송도 전달되게 시각을 섞는다.
+      // SSR·사파리 프라이빗 모드 등 storage 불가(쓰기 실패 포함)면 동기화만 포기
+      writeJson(syncKey(), { type, at: Date.now(), r: Math.random() });
+    },
+  };
+}
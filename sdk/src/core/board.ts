@@ -1,23 +1,82 @@
 /**
- * 동적 게시판(FREE/REVIEW) transport — 읽기는 공개(/public/boards), 쓰기는 회원(/boards).
+ * 동적 게시판(FREE/REVIEW/URL_LINK) transport — 읽기는 공개(/public/boards), 쓰기는 회원(/boards).
  * board_id 는 baas-cli 로 생성해 앱에 주입된 값을 넘긴다(프로젝트마다 다름).
  */
-import { request } from "./http";
-import { getProjectId } from "./config";
+import { BaasError } from "./http";
+import type { CallOptions } from "./http";
+import { mapCacheUpdate } from "./queryCache";
+import type { QueryCallOptions } from "./queryCache";
+import type { BoardFile } from "./upload";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
 
+export type BoardType = "FREE" | "REVIEW" | "URL_LINK";
+
+/** 분류 그룹 — 그룹마다 values 중에서 선택 */
+export interface CategoryGroup {
+  name: string;
+  values: string[];
+}
+
+/**
+ * 런타임 게시판 설정 — 목록/상세 응답의 board_settings. 관리자 변경이 즉시 반영되므로
+ * 댓글·첨부·별점·카테고리 UI 노출은 게시판 정보 JSON 이 아니라 이 값으로 판단한다.
+ */
+export interface BoardSettings {
+  /** false 면 댓글 영역 비표시 */
+  allow_comment: boolean;
+  /** false 면 작성/수정/삭제 버튼 비표시(쓰기 API 403) */
+  is_board_enabled: boolean;
+  /** true 면 비로그인 사용자에게 로그인 유도(상세 조회 401) */
+  require_login: boolean;
+  /** false 면 첨부 버튼 비표시(file_ids 포함 시 400) */
+  allow_attachment: boolean;
+  categories: CategoryGroup[] | null;
+  board_type: BoardType;
+}
+
+/**
+ * 게시글(FREE/REVIEW/URL_LINK 공통). rating·link_url 은 게시판 타입에 따라 채워지는 선택 필드라
+ * 값 유무로 타입을 가르지 않는다 — 타입은 board_settings.board_type(isReviewPost/isLinkPost)으로 판단.
+ */
 export interface BoardPost {
   id: string;
+  board_id?: string;
   title: string;
-  content?: string;
+  /** 목록은 HTML 태그를 뺀 미리보기, 상세는 HTML */
+  content?: string | null;
+  author_id?: string;
   author_name?: string;
   views?: number;
   created_at?: string;
+  updated_at?: string | null;
+  attachments?: BoardFile[];
+  is_hidden?: boolean;
+  /** 그룹별 선택 카테고리 { 그룹명: [선택값...] } */
+  categories?: Record<string, string[]> | null;
+  /** REVIEW 게시판의 별점 1~5(다른 타입·별점 없는 리뷰는 비어 있다) */
+  rating?: number | null;
+  /** URL_LINK 게시판의 이동 주소(content 는 URL 문자열) */
+  link_url?: string | null;
+  /** 상세 응답에만 — 목록은 PostListResult.board_settings */
+  board_settings?: BoardSettings | null;
   [key: string]: unknown;
 }
 
+/** 게시판 타입 판정 — settings 생략 시 상세 응답의 post.board_settings. 목록 항목은 목록의 board_settings 를 넘긴다 */
+export const isReviewPost = (post: BoardPost, settings: BoardSettings | null | undefined = post.board_settings) =>
+  settings?.board_type === "REVIEW";
+export const isLinkPost = (post: BoardPost, settings: BoardSettings | null | undefined = post.board_settings) =>
+  settings?.board_type === "URL_LINK";
+
 export interface PostListResult {
   items: BoardPost[];
+  total_count?: number;
+  /** 정적 게시판(공지/FAQ) 응답 호환 */
   total?: number;
+  offset?: number;
+  limit?: number;
+  board_settings?: BoardSettings | null;
   [key: string]: unknown;
 }
 
@@ -25,41 +84,201 @@ export interface PostListOptions {
   offset?: number;
   limit?: number;
   keyword?: string;
+  /** 카테고리 값 하나로 필터 */
+  category?: string;
+  /** category 가 속한 분류 그룹명 — 지정 시 그 그룹 안에서만 매칭(그룹이 하나면 생략 가능) */
+  category_group?: string;
 }
 
 export interface PostCreateInput {
   title: string;
+  /** HTML. URL_LINK 게시판은 https:// URL 문자열 */
   content: string;
-  file_ids?: string[];
+  /** uploadFiles() 결과 files[].id */
+  file_ids?: number[];
+  is_hidden?: boolean;
+  /** board_settings.categories 의 그룹명 → 그 그룹 values 중 선택값 */
+  categories?: Record<string, string[]>;
+  /** REVIEW 게시판 전용 별점(1~5 정수). 다른 타입에선 무시된다 */
+  rating?: number;
   [key: string]: unknown;
 }
 
-export function listPosts(boardId: string, options: PostListOptions = {}): Promise<PostListResult> {
-  const params = new URLSearchParams();
-  if (options.offset !== undefined) params.append("offset", String(options.offset));
-  if (options.limit !== undefined) params.append("limit", String(options.limit));
-  if (options.keyword) params.append("keyword", options.keyword);
-  const qs = params.toString();
-  return request<PostListResult>(
-    `/public/boards/${getProjectId()}/${boardId}/posts${qs ? `?${qs}` : ""}`
-  );
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+/**
+ * 작성/수정 입력 사전 검증 — 서버 422 왕복 전에 같은 모양(VALIDATION_ERROR, fieldErrors)으로 던진다.
+ * settings 를 주면 categories 가 board_settings.categories 의 그룹/값 안에 있는지도 본다.
+ */
+export function validatePostInput(data: Partial<PostCreateInput>, settings?: BoardSettings | null): void {
+  const reasons: { field: string; reason: string }[] = [];
+  const { rating, categories } = data;
+  if (rating !== undefined && rating !== null && !(Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING)) {
+    reasons.push({ field: "rating", reason: `별점은 ${MIN_RATING}~${MAX_RATING} 사이의 정수여야 합니다.` });
+  }
+  if (categories && settings) {
+    for (const [group, values] of Object.entries(categories)) {
+      const allowed = settings.categories?.find((g) => g.name === group);
+      if (!allowed) {
+        reasons.push({ field: `categories.${group}`, reason: `알 수 없는 분류입니다: ${group}` });
+        continue;
+      }
+      for (const v of values) {
+        if (!allowed.values.includes(v)) {
+          reasons.push({ field: `categories.${group}`, reason: `'${group}' 분류에 없는 값입니다: ${v}` });
+        }
+      }
+    }
+  }
+  if (reasons.length) throw new BaasError(reasons[0].reason, "VALIDATION_ERROR", 0, reasons);
 }
 
-export function getPost(postId: string): Promise<BoardPost> {
-  return request<BoardPost>(`/public/boards/posts/${postId}`);
+/** 목록 필터 칩 하나 — filter 를 listPosts 옵션에 펼쳐 넘긴다 */
+export interface CategoryChip {
+  group: string;
+  value: string;
+  filter: Required<Pick<PostListOptions, "category" | "category_group">>;
 }
 
-export function createPost(boardId: string, data: PostCreateInput): Promise<BoardPost> {
-  return request<BoardPost>(`/boards/${getProjectId()}/${boardId}/posts`, {
-    method: "POST",
-    body: data,
-  });
+/** board_settings.categories → 그룹별 칩 목록(그룹 = 탭/줄, 값 = 칩). 카테고리 비활성이면 [] */
+export function categoryChips(settings: BoardSettings | null | undefined): { group: string; chips: CategoryChip[] }[] {
+  return (settings?.categories ?? []).map((g) => ({
+    group: g.name,
+    chips: g.values.map((value) => ({ group: g.name, value, filter: { category: value, category_group: g.name } })),
+  }));
 }
 
-export function updatePost(postId: string, data: Partial<PostCreateInput>): Promise<BoardPost> {
-  return request<BoardPost>(`/boards/posts/${postId}`, { method: "PUT", body: data });
+/** 현재 목록 옵션에서 이 칩이 선택 상태인지 */
+export function isChipActive(chip: CategoryChip, options: PostListOptions): boolean {
+  return options.category === chip.value && (options.category_group ?? chip.group) === chip.group;
 }
 
-export function deletePost(postId: string): Promise<boolean> {
-  return request<boolean>(`/boards/posts/${postId}`, { method: "DELETE" });
+/** 신고 사유(dynamic-board 레퍼런스 13·14장) — 게시글·댓글 공통 */
+export type ReportReason = "SPAM" | "ABUSE" | "HARASSMENT" | "INAPPROPRIATE" | "OTHER";
+
+/** 신고 사유 선택 UI 용 표시 문구(순서 = 화면 순서) */
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  SPAM: "스팸·광고",
+  ABUSE: "욕설·비방",
+  HARASSMENT: "괴롭힘",
+  INAPPROPRIATE: "부적절한 내용",
+  OTHER: "기타",
+};
+
+export interface ReportInput {
+  reason: ReportReason;
+  /** OTHER 선택 시 상세 사유(최대 1000자) */
+  description?: string;
 }
+
+export interface Report {
+  id: string;
+  target_type: "POST" | "COMMENT";
+  target_id: string;
+  reason: ReportReason;
+  description: string | null;
+  status: string;
+  created_at: string;
+  [key: string]: unknown;
+}
+
+export function createBoardApi({ request, query, invalidate, getProjectId }: ClientContext) {
+  // 쓰기 후 무효화 대상 — 목록은 boardId 를 모르는 수정/삭제에선 프로젝트 게시판 전체
+  const listKey = (boardId?: string) => `/public/boards/${getProjectId()}${boardId ? `/${boardId}` : ""}`;
+  const postKey = (postId: string) => `/public/boards/posts/${postId}`;
+
+  function listPosts(
+    boardId: string,
+    options: PostListOptions = {},
+    call: QueryCallOptions<PostListResult> = {}
+  ): Promise<PostListResult> {
+    const params = new URLSearchParams();
+    if (options.offset !== undefined) params.append("offset", String(options.offset));
+    if (options.limit !== undefined) params.append("limit", String(options.limit));
+    if (options.keyword) params.append("keyword", options.keyword);
+    if (options.category) params.append("category", options.category);
+    if (options.category && options.category_group) params.append("category_group", options.category_group);
+    const qs = params.toString();
+    return query<PostListResult>(`${listKey(boardId)}/posts${qs ? `?${qs}` : ""}`, call);
+  }
+
+  /**
+   * 게시글 상세. 기본은 캐시하지 않는다 — 매 조회가 서버에 닿아야 조회수가 오르고, 숨김·require_login 글이
+   * 다른 사용자에게 남지 않는다. 목록→상세 왕복처럼 캐시가 필요하면 call.cache 에 옵션 객체를 넘겨 opt-in.
+   */
+  function getPost(postId: string, call: QueryCallOptions<BoardPost> = {}): Promise<BoardPost> {
+    const { cache, ...rest } = call;
+    return cache ? query<BoardPost>(postKey(postId), call) : request<BoardPost>(postKey(postId), rest);
+  }
+
+  async function createPost(boardId: string, data: PostCreateInput, call: CallOptions = {}): Promise<BoardPost> {
+    validatePostInput(data);
+    const post = await request<BoardPost>(`/boards/${getProjectId()}/${boardId}/posts`, {
+      method: "POST",
+      body: data,
+      ...call,
+    });
+    invalidate(listKey(boardId));
+    return post;
+  }
+
+  async function updatePost(
+    postId: string,
+    data: Partial<PostCreateInput>,
+    call: CallOptions = {}
+  ): Promise<BoardPost> {
+    validatePostInput(data);
+    const post = await request<BoardPost>(`/boards/posts/${postId}`, { method: "PUT", body: data, ...call });
+    invalidate(postKey(postId));
+    invalidate(listKey());
+    return post;
+  }
+
+  async function deletePost(postId: string, call: CallOptions = {}): Promise<boolean> {
+    const ok = await request<boolean>(`/boards/posts/${postId}`, { method: "DELETE", ...call });
+    invalidate(postKey(postId));
+    invalidate(listKey());
+    return ok;
+  }
+
+  /**
+   * 게시판 설정만 필요할 때(글쓰기 화면 진입 등). 설정 전용 엔드포인트가 없어 목록 1건 조회 응답에서 꺼낸다.
+   * 공개 조회라 캐시된다.
+   */
+  async function getBoardSettings(boardId: string, call: QueryCallOptions<BoardSettings | null> = {}): Promise<BoardSettings | null> {
+    const pick = (d: PostListResult) => d.board_settings ?? null;
+    // 백그라운드 재조회 결과도 목록이 아닌 설정으로 전달
+    return pick(await listPosts(boardId, { limit: 1 }, mapCacheUpdate(call, pick)));
+  }
+
+  /** 작성자 또는 프로젝트 소유자만. 숨긴 글은 목록에서 빠지므로 목록 캐시도 무효화 */
+  async function togglePostHidden(postId: string, isHidden: boolean, call: CallOptions = {}): Promise<BoardPost> {
+    const post = await request<BoardPost>(`/boards/posts/${postId}/hidden`, {
+      method: "PATCH",
+      body: { is_hidden: isHidden },
+      ...call,
+    });
+    invalidate(postKey(postId));
+    invalidate(listKey());
+    return post;
+  }
+
+  /** 같은 대상 재신고는 CONFLICT */
+  function reportPost(postId: string, data: ReportInput, call: CallOptions = {}): Promise<Report> {
+    return request<Report>(`/boards/posts/${postId}/report`, { method: "POST", body: data, ...call });
+  }
+
+  return { listPosts, getPost, getBoardSettings, createPost, updatePost, deletePost, togglePostHidden, reportPost };
+}
+
+export const {
+  listPosts,
+  getPost,
+  getBoardSettings,
+  createPost,
+  updatePost,
+  deletePost,
+  togglePostHidden,
+  reportPost,
+} = createBoardApi(defaultContext);
@@ -0,0 +1,43 @@
+/**
+ * createClient — 독립 SDK 인스턴스. 한 페이지에서 여러 프로젝트와 대화할 때 쓴다
+ * (관리자 미리보기에 생성 앱 2개 임베드, 병렬 테스트 등).
+ * 인스턴스마다 config·인증 캐시·이벤트 버스·미들웨어·탭 동기화 채널이 분리된다.
+ * 최상위 함수(BaasSDK.login 등)는 init() 으로 설정되는 기본 인스턴스 그대로다.
+ */
+import { resolveConfig } from "./config";
+import type { InitOptions } from "./config";
+import { createContext } from "./context";
+import { createAuthApi } from "./auth";
+import { createBoardApi } from "./board";
+import { createNoticeApi } from "./notice";
+import { createRecipientApi } from "./recipient";
+import { createSurveyApi } from "./survey";
+import { createReservationApi } from "./reservation";
+import { createStoreApi } from "./store";
+import { createUploadApi } from "./upload";
+import { createDraftApi } from "./draft";
+import { createNoticeReadApi } from "./noticeRead";
+
+export function createClient(opts: InitOptions & { projectId: string }) {
+  const config = resolveConfig(opts);
+  const ctx = createContext(() => config);
+  return {
+    config,
+    request: ctx.request,
+    use: ctx.use,
+    on: ctx.on,
+    invalidateQueries: ctx.invalidate,
+    ...createAuthApi(ctx),
+    ...createBoardApi(ctx),
+    ...createNoticeApi(ctx),
+    ...createRecipientApi(ctx),
+    ...createSurveyApi(ctx),
+    ...createReservationApi(ctx),
+    ...createStoreApi(ctx),
+    ...createUploadApi(ctx),
+    ...createDraftApi(ctx),
+    ...createNoticeReadApi(ctx),
+  };
+}
+
+export type BaasClient = ReturnType<typeof createClient>;
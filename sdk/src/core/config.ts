@@ -5,11 +5,47 @@
  * BASE_URL 기본값은 생성 앱의 프록시 경로(/aiapp-baas) — CloudFront 가 prefix 를 제거해
  * Lambda 는 /account/login 형태로 수신한다.
  */
+import type { Middleware } from "./middleware";
+
 export interface BaasConfig {
   baseUrl: string;
   projectId: string;
+  /** 전역 재시도 정책 — 요청별 RequestOptions.retry 가 우선한다 */
+  retry?: Partial<RetryPolicy>;
+  /** 전역 요청 제한 시간(ms) — 요청별 RequestOptions.timeoutMs 가 우선한다 */
+  timeoutMs?: number;
+  /** transport 미들웨어(use() 로 등록한 것보다 먼저 실행) */
+  middleware?: Middleware[];
 }
 
+/**
+ * 재시도 정책. 기본은 GET/HEAD 만 재시도한다 — 결제 승인(confirmOrder/confirmBooking) 같은
+ * 비멱등 쓰기는 중복 처리 위험이 있어 호출부가 retryWrites 로 명시해야만 재시도한다.
+ */
+export interface RetryPolicy {
+  /** 최초 요청을 제외한 최대 재시도 횟수(0 = 재시도 안 함) */
+  retries: number;
+  /** 지수 백오프 기준 지연(ms) — attempt 마다 2배, full jitter 적용 */
+  baseDelayMs: number;
+  /** 백오프 상한(ms). Retry-After 가 이보다 길면 재시도하지 않고 실패시킨다 */
+  maxDelayMs: number;
+  /** 재시도 대상 HTTP 상태 */
+  statuses: number[];
+  /** GET/HEAD 외 메서드도 재시도(서버가 멱등을 보장하는 쓰기에서만 opt-in) */
+  retryWrites: boolean;
+}
+
+/** 백엔드가 멈춰도 로딩 스피너가 영원히 돌지 않게 하는 기본 상한 */
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_RETRY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  statuses: [408, 429, 502, 503, 504],
+  retryWrites: false,
+};
+
 let _config: BaasConfig | null = null;
 
 const DEFAULT_BASE_URL = "/aiapp-baas";
@@ -21,11 +57,19 @@ function readMeta(name: string): string | null {
   return v && v !== "None" && v !== "null" && v !== "undefined" ? v : null;
 }
 
+export interface InitOptions {
+  projectId?: string;
+  baseUrl?: string;
+  retry?: Partial<RetryPolicy>;
+  timeoutMs?: number;
+  middleware?: Middleware[];
+}
+
 /**
- * SDK 초기화. 앱 스캐폴드가 render 이전에 1회 호출한다.
- * projectId 를 명시하지 않으면 meta 태그/전역에서 해석한다.
+ * 옵션 → BaasConfig. projectId 를 명시하지 않으면 meta 태그/전역에서 해석한다.
+ * init() 과 createClient() 가 공유한다.
  */
-export function init(opts: { projectId?: string; baseUrl?: string } = {}): BaasConfig {
+export function resolveConfig(opts: InitOptions = {}): BaasConfig {
   const globalCfg =
     (typeof window !== "undefined" && (window as any).__BAAS_CONFIG__) || {};
   const projectId =
@@ -40,7 +84,20 @@ export function init(opts: { projectId?: string; baseUrl?: string } = {}): BaasC
       "[BaaS SDK] project_id 가 없습니다. init({ projectId }) 또는 <meta name=\"baas-project-id\"> 를 확인하세요."
     );
   }
-  _config = { baseUrl: baseUrl.replace(/\/$/, ""), projectId };
+  return {
+    baseUrl: baseUrl.replace(/\/$/, ""),
+    projectId,
+    retry: opts.retry,
+    timeoutMs: opts.timeoutMs,
+    middleware: opts.middleware,
+  };
+}
+
+/**
+ * SDK 초기화. 앱 스캐폴드가 render 이전에 1회 호출한다(기본 인스턴스 설정).
+ */
+export function init(opts: InitOptions = {}): BaasConfig {
+  _config = resolveConfig(opts);
   return _config;
 }
 
@@ -0,0 +1,67 @@
+/**
+ * 클라이언트 컨텍스트 — config·transport·이벤트·미들웨어·조회 캐시 한 묶음.
+ * 도메인 모듈(auth/board/…)은 create*Api(ctx) 팩토리로 이 묶음에 바인딩된다.
+ * 기본 인스턴스(init() + 최상위 함수)와 createClient() 인스턴스가 같은 팩토리를 공유한다.
+ */
+import { getConfig } from "./config";
+import type { BaasConfig } from "./config";
+import { createRequest, request } from "./http";
+import type { RequestFn } from "./http";
+import { createEmitter, on, emit } from "./events";
+import type { Emitter } from "./events";
+import { createMiddlewareRegistry, use } from "./middleware";
+import type { MiddlewareRegistry } from "./middleware";
+import { createQueryCache } from "./queryCache";
+import type { QueryCache, QueryCallOptions } from "./queryCache";
+
+export interface ClientContext {
+  getConfig: () => BaasConfig;
+  getProjectId: () => string;
+  request: RequestFn;
+  on: Emitter["on"];
+  emit: Emitter["emit"];
+  use: MiddlewareRegistry["use"];
+  /** 캐시되는 공개 GET — path 가 곧 캐시 키 */
+  query: <T>(path: string, call?: QueryCallOptions<T>) => Promise<T>;
+  /** 쓰기 후 관련 조회 캐시 무효화(prefix 생략 시 전체) */
+  invalidate: QueryCache["invalidate"];
+}
+
+function bindQuery(request: RequestFn, cache: QueryCache): ClientContext["query"] {
+  return <T>(path: string, call: QueryCallOptions<T> = {}) =>
+    cache.query<T>(path, (c) => request<T>(path, c), call);
+}
+
+/** 독립 인스턴스용 컨텍스트 — 이벤트 버스·미들웨어·(팩토리가 만드는) 캐시를 공유하지 않는다 */
+export function createContext(getConfig: () => BaasConfig): ClientContext {
+  const events = createEmitter();
+  const middleware = createMiddlewareRegistry(getConfig);
+  const request = createRequest({ getConfig, getMiddlewares: middleware.list, emit: events.emit });
+  const cache = createQueryCache();
+  return {
+    getConfig,
+    getProjectId: () => getConfig().projectId,
+    request,
+    on: events.on,
+    emit: events.emit,
+    use: middleware.use,
+    query: bindQuery(request, cache),
+    invalidate: cache.invalidate,
+  };
+}
+
+/** 기본 인스턴스 — init() 설정과 모듈 기본 버스/레지스트리를 그대로 쓴다 */
+const defaultCache = createQueryCache();
+export const defaultContext: ClientContext = {
+  getConfig,
+  getProjectId: () => getConfig().projectId,
+  request,
+  on,
+  emit,
+  use,
+  query: bindQuery(request, defaultCache),
+  invalidate: defaultCache.invalidate,
+};
+
+/** 기본 인스턴스 조회 캐시 무효화 — 백오피스 등 SDK 밖에서 데이터가 바뀐 걸 알 때 */
+export const invalidateQueries = defaultContext.invalidate;
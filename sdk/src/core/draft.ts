@@ -0,0 +1,107 @@
+/**
+ * 게시글 임시저장 — 작성/수정 중인 내용을 localStorage 에 보관했다가 다시 열 때 복원한다.
+ * 키는 프로젝트·게시판·글(새 글은 "new")마다 따로라 한 게시판에 여러 초안이 공존한다.
+ * 서버에는 초안 개념이 없다 — 세션 만료·이탈로 잃지 않게 하는 브라우저 로컬 보관일 뿐.
+ * storage 를 쓸 수 없는 환경(SSR·사파리 프라이빗 모드)에선 조용히 아무것도 하지 않는다.
+ */
+import type { PostCreateInput } from "./board";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
+import { localStore as storage, readJson, writeJson } from "./storage";
+
+/** 초안으로 보관하는 입력 — 첨부는 업로드된 file_ids 만(파일 자체는 서버에 있다) */
+export type PostDraftFields = Partial<Pick<PostCreateInput, "title" | "content" | "rating" | "file_ids" | "categories">>;
+
+export interface PostDraft extends PostDraftFields {
+  /** 저장 시각(ms) */
+  saved_at: number;
+}
+
+export interface DraftEntry {
+  boardId: string;
+  /** 새 글 초안이면 null */
+  postId: string | null;
+  draft: PostDraft;
+}
+
+/** 이보다 오래된 초안은 복원하지 않고 지운다 */
+export const DRAFT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const NEW_POST = "new";
+
+/** 제목·본문이 비고 나머지도 없으면 보관할 가치가 없다 */
+function isEmpty(d: PostDraftFields): boolean {
+  return (
+    !d.title?.trim() &&
+    !d.content?.trim() &&
+    d.rating == null &&
+    !d.file_ids?.length &&
+    !Object.values(d.categories ?? {}).some((v) => v.length)
+  );
+}
+
+export function createDraftApi({ getProjectId, emit }: ClientContext) {
+  const prefix = () => `baas-draft:${getProjectId()}:`;
+  const keyOf = (boardId: string, postId?: string | null) => `${prefix()}${boardId}:${postId || NEW_POST}`;
+
+  function read(key: string): PostDraft | null {
+    const draft = readJson<PostDraft>(key);
+    if (typeof draft?.saved_at === "number" && Date.now() - draft.saved_at < DRAFT_MAX_AGE_MS) return draft;
+    storage()?.removeItem(key); // 만료·깨진 값은 지운다
+    return null;
+  }
+
+  /** 초안 저장. 내용이 비어 있으면 지운다. 저장 실패(용량 초과 등)는 false */
+  function saveDraft(boardId: string, postId: string | null | undefined, fields: PostDraftFields): boolean {
+    const s = storage();
+    if (!s) return false;
+    const key = keyOf(boardId, postId);
+    if (isEmpty(fields)) {
+      s.removeItem(key);
+      return true;
+    }
+    return writeJson(key, { ...fields, saved_at: Date.now() });
+  }
+
+  function loadDraft(boardId: string, postId?: string | null): PostDraft | null {
+    return read(keyOf(boardId, postId));
+  }
+
+  /**
+   * 초안 삭제 — 열려 있는 usePostDraft 는 "draft-cleared" 로 대기 중인 저장을 버린다.
+   * boardId 가 null 이면 그 글(postId)의 초안을 게시판 무관하게 지운다(수정 화면은 board_id 를 모를 수 있다).
+   */
+  function clearDraft(boardId: string | null, postId?: string | null): void {
+    if (boardId !== null) storage()?.removeItem(keyOf(boardId, postId));
+    else if (postId) {
+      for (const e of listDrafts()) if (e.postId === postId) storage()?.removeItem(keyOf(e.boardId, postId));
+    }
+    emit("draft-cleared", { boardId, postId: postId || null });
+  }
+
+  /** 보관된 초안 목록(최근 저장 순). boardId 생략 시 프로젝트 전체 */
+  function listDrafts(boardId?: string): DraftEntry[] {
+    const s = storage();
+    if (!s) return [];
+    const base = prefix();
+    const keys: string[] = [];
+    for (let i = 0; i < s.length; i++) {
+      const key = s.key(i);
+      if (key?.startsWith(base)) keys.push(key);
+    }
+    const entries: DraftEntry[] = [];
+    for (const key of keys) {
+      const rest = key.slice(base.length);
+      const at = rest.lastIndexOf(":");
+      const entry = { boardId: rest.slice(0, at), postId: rest.slice(at + 1) };
+      if (boardId && entry.boardId !== boardId) continue;
+      const draft = read(key);
+      if (draft) entries.push({ boardId: entry.boardId, postId: entry.postId === NEW_POST ? null : entry.postId, draft });
+    }
+    return entries.sort((a, b) => b.draft.saved_at - a.draft.saved_at);
+  }
+
+  return { saveDraft, loadDraft, clearDraft, listDrafts };
+}
+
+export const { saveDraft, loadDraft, clearDraft, listDrafts } = createDraftApi(defaultContext);
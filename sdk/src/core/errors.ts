@@ -0,0 +1,103 @@
+/**
+ * 에러 코드 카탈로그 + 사용자 노출 메시지.
+ * 코드는 account/board/reservation/store 레퍼런스에 문서화된 것 + SDK 자체 코드(TIMEOUT/ABORTED).
+ * 메시지는 서버 원문 대신 카탈로그에서 고른다 — 앱마다 문구가 달라지지 않고 번역할 수 있다.
+ * 서버의 구체 사유(예: "취소 가능 시간이 지났습니다")가 필요하면 error.message 를 함께 쓴다.
+ */
+import { BaasError } from "./http";
+
+export type BaasErrorCode =
+  | "BAD_REQUEST"
+  | "INVALID_USER"
+  | "INVALID_CREDENTIALS"
+  | "UNAUTHORIZED"
+  | "INVALID_TOKEN"
+  | "TOKEN_EXPIRED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "ALREADY_EXISTS"
+  | "CONFLICT"
+  | "VALIDATION_ERROR"
+  | "INTERNAL_SERVER_ERROR"
+  | "TIMEOUT"
+  | "ABORTED";
+
+export type ErrorLocale = "ko" | "en";
+
+/** 코드별 문구 + 코드 미상(default)·네트워크 오류(network) 문구 */
+export type ErrorMessages = Record<BaasErrorCode | "default" | "network", string>;
+
+const ko: ErrorMessages = {
+  BAD_REQUEST: "요청을 처리할 수 없습니다. 입력 내용을 확인해주세요.",
+  INVALID_USER: "아이디 또는 비밀번호를 확인해주세요.",
+  INVALID_CREDENTIALS: "아이디 또는 비밀번호를 확인해주세요.",
+  UNAUTHORIZED: "로그인이 필요합니다.",
+  INVALID_TOKEN: "세션이 만료되었습니다. 다시 로그인해주세요.",
+  TOKEN_EXPIRED: "세션이 만료되었습니다. 다시 로그인해주세요.",
+  FORBIDDEN: "권한이 없습니다.",
+  NOT_FOUND: "대상을 찾을 수 없습니다.",
+  ALREADY_EXISTS: "이미 사용 중입니다.",
+  CONFLICT: "이미 처리되었거나 다른 요청과 충돌했습니다. 새로고침 후 다시 시도해주세요.",
+  VALIDATION_ERROR: "입력 값을 확인해주세요.",
+  INTERNAL_SERVER_ERROR: "잠시 후 다시 시도해주세요.",
+  TIMEOUT: "응답이 지연되고 있습니다. 잠시 후 다시 시도해주세요.",
+  ABORTED: "요청이 취소되었습니다.",
+  network: "네트워크 연결을 확인해주세요.",
+  default: "문제가 발생했습니다. 잠시 후 다시 시도해주세요.",
+};
+
+const en: ErrorMessages = {
+  BAD_REQUEST: "We couldn't process the request. Please check your input.",
+  INVALID_USER: "Please check your ID or password.",
+  INVALID_CREDENTIALS: "Please check your ID or password.",
+  UNAUTHORIZED: "Please log in to continue.",
+  INVALID_TOKEN: "Your session has expired. Please log in again.",
+  TOKEN_EXPIRED: "Your session has expired. Please log in again.",
+  FORBIDDEN: "You don't have permission to do this.",
+  NOT_FOUND: "The requested item could not be found.",
+  ALREADY_EXISTS: "This is already in use.",
+  CONFLICT: "This was already processed or conflicts with another request. Please refresh and try again.",
+  VALIDATION_ERROR: "Please check the highlighted fields.",
+  INTERNAL_SERVER_ERROR: "Something went wrong on our end. Please try again shortly.",
+  TIMEOUT: "The server is taking too long to respond. Please try again shortly.",
+  ABORTED: "The request was cancelled.",
+  network: "Please check your network connection.",
+  default: "Something went wrong. Please try again shortly.",
+};
+
+export const errorCatalogs: Record<ErrorLocale, ErrorMessages> = { ko, en };
+
+let active: ErrorMessages = ko;
+
+/** 메시지 카탈로그 교체 — 기본 ko. overrides 로 앱 고유 문구만 덮어쓸 수 있다 */
+export function setErrorMessages(locale: ErrorLocale, overrides: Partial<ErrorMessages> = {}): void {
+  active = { ...errorCatalogs[locale], ...overrides };
+}
+
+// errorCode 가 없는(비-envelope) 응답은 HTTP 상태로 코드를 추정한다
+const STATUS_CODES: Record<number, BaasErrorCode> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  422: "VALIDATION_ERROR",
+};
+
+/** 에러 → 사용자 노출 문구(활성 카탈로그 기준) */
+export function getErrorMessage(e: unknown): string {
+  if (e instanceof BaasError) {
+    const code = e.errorCode ?? STATUS_CODES[e.status] ?? (e.status >= 500 ? "INTERNAL_SERVER_ERROR" : null);
+    return (code && active[code as BaasErrorCode]) || active.default;
+  }
+  if (e instanceof TypeError) return active.network; // fetch 네트워크 실패는 TypeError
+  return active.default;
+}
+
+/** BaasError 타입 가드 — code 를 주면 그 코드인지까지 확인한다 */
+export function isBaasError<C extends BaasErrorCode>(
+  e: unknown,
+  code?: C
+): e is BaasError & { errorCode: C } {
+  return e instanceof BaasError && (code === undefined || e.errorCode === code);
+}
@@ -0,0 +1,73 @@
+/**
+ * SDK 이벤트 버스 — transport 가 감지한 상태 변화를 core/react 가 구독한다.
+ * http 는 auth 를 import 할 수 없으므로(순환) 401 감지 → 캐시 무효화도 이 버스를 거친다.
+ */
+export interface BaasEventMap {
+  /** allow401 이 아닌 요청의 401(로그인 여부 무관) — auth 가 로그인 중이었을 때만 session-expired 로 바꾼다 */
+  unauthorized: { path: string; errorCode: string | null };
+  /** 로그인 이후 회원 API 가 401 을 반환 — 쿠키 만료/로그아웃됨 */
+  "session-expired": { path: string; errorCode: string | null };
+  /** 다른 탭에서 인증 상태가 바뀜(authSync 수신) — 이 탭도 재조회/초기화해야 한다 */
+  "auth-sync": { type: AuthSyncType };
+  /** 게시글 초안 삭제(작성·수정 성공 포함) — 열려 있는 편집기는 대기 중인 자동 저장을 버린다 */
+  "draft-cleared": { boardId: string | null; postId: string | null };
+  /** 공지 읽음 기록 변경 — 헤더 배지·목록 강조가 함께 갱신된다 */
+  "notice-read": {};
+}
+
+export type AuthSyncType = "login" | "logout" | "session-expired";
+
+export type BaasEventType = keyof BaasEventMap;
+
+type Handler<K extends BaasEventType> = (payload: BaasEventMap[K]) => void;
+
+export interface Emitter {
+  /** 이벤트 구독. 반환 함수를 호출하면 해제된다 */
+  on<K extends BaasEventType>(type: K, handler: Handler<K>): () => void;
+  emit<K extends BaasEventType>(type: K, payload: BaasEventMap[K]): void;
+}
+
+/**
+ * 구독자 오류 보고 — DOM 이벤트 리스너 오류처럼 전역 에러 경로(window.onerror·에러 수집 도구)로 보낸다.
+ * emit 한 쪽(요청·다른 구독자)은 계속 진행된다.
+ */
+function reportHandlerError(error: unknown): void {
+  const report = (globalThis as { reportError?: (e: unknown) => void }).reportError;
+  if (report) report(error);
+  else
+    setTimeout(() => {
+      throw error;
+    });
+}
+
+/** 클라이언트 인스턴스마다 독립된 버스 — 한 프로젝트의 401 이 다른 프로젝트 캐시를 지우지 않게 */
+export function createEmitter(): Emitter {
+  const listeners: { [K in BaasEventType]?: Set<Handler<K>> } = {};
+  // 이벤트 종류별 구독자 — 키 K 의 Set 은 항상 Handler<K> 만 담는다
+  const handlers = <K extends BaasEventType>(type: K): Set<Handler<K>> =>
+    ((listeners as { [P in K]?: Set<Handler<K>> })[type] ??= new Set());
+  return {
+    on(type, handler) {
+      const set = handlers(type);
+      set.add(handler);
+      return () => {
+        set.delete(handler);
+      };
+    },
+    emit(type, payload) {
+      // 구독 해제가 순회 중에 일어나도 이번 emit 은 시작 시점 구독자 모두에게
+      for (const handler of [...handlers(type)]) {
+        try {
+          handler(payload);
+        } catch (e) {
+          reportHandlerError(e); // 한 구독자의 오류가 요청 실패·다른 구독자로 번지지 않게
+        }
+      }
+    },
+  };
+}
+
+// 기본 인스턴스(init + 최상위 함수)의 버스
+const bus = createEmitter();
+export const on = bus.on;
+export const emit = bus.emit;
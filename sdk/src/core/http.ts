@@ -1,41 +1,236 @@
 /**
- * fetch 코어 — envelope 언랩·에러 매핑·SDK 버전 헤더·credentials 를 한 곳에서.
+ * fetch 코어 — envelope 언랩·에러 매핑·SDK 버전 헤더·credentials·미들웨어를 한 곳에서.
  * 모든 백엔드 호출은 이 함수를 거친다(부패 방지 계층의 실체).
  */
-import { getBaseUrl } from "./config";
+import { getConfig, DEFAULT_RETRY, DEFAULT_TIMEOUT_MS } from "./config";
+import type { BaasConfig, RetryPolicy } from "./config";
+import { getMiddlewares } from "./middleware";
+import type { Middleware, RequestContext } from "./middleware";
+import { emit } from "./events";
+import type { Emitter } from "./events";
 import { SDK_VERSION } from "../version";
 import type { Envelope } from "./types";
+import type { BaasErrorCode } from "./errors";
+
+/** 필드 경로(title, form_data.phone 등) → 에러 메시지 목록. 폼 입력 옆에 그대로 바인딩한다 */
+export type FieldErrors = Record<string, string[]>;
 
 export class BaasError extends Error {
-  errorCode: string | null;
+  /** 문서화된 코드는 BaasErrorCode 로 자동완성, 미문서 코드도 문자열로 그대로 보존 */
+  errorCode: BaasErrorCode | (string & {}) | null;
   status: number;
-  constructor(message: string, errorCode: string | null, status: number) {
+  /** VALIDATION_ERROR 의 필드별 에러. 다른 에러면 빈 객체 */
+  fieldErrors: FieldErrors;
+  constructor(message: string, errorCode: string | null, status: number, detail?: unknown) {
     super(message);
     this.name = "BaasError";
     this.errorCode = errorCode;
     this.status = status;
+    this.fieldErrors = parseFieldErrors(detail);
   }
 }
 
+/**
+ * envelope.detail → FieldErrors. 문서 형식 [{ field, reason }] 과
+ * FastAPI 422 원형 [{ loc: ["body", "title"], msg }] 을 모두 받는다.
+ */
+function parseFieldErrors(detail: unknown): FieldErrors {
+  const out: FieldErrors = {};
+  if (!Array.isArray(detail)) return out;
+  for (const d of detail) {
+    if (!d || typeof d !== "object") continue;
+    const item = d as { field?: unknown; reason?: unknown; loc?: unknown; msg?: unknown };
+    const field =
+      typeof item.field === "string"
+        ? item.field
+        : Array.isArray(item.loc)
+          ? item.loc.filter((p) => p !== "body").join(".")
+          : "";
+    const message = typeof item.reason === "string" ? item.reason : typeof item.msg === "string" ? item.msg : "";
+    if (!message) continue;
+    (out[field || "_"] ??= []).push(message); // 필드 특정 불가 에러는 "_" 에 모은다
+  }
+  return out;
+}
+
+/** 아무 에러에서 필드 에러 추출(BaasError 가 아니면 빈 객체) — 훅이 catch 에서 쓴다 */
+export function fieldErrorsOf(e: unknown): FieldErrors {
+  return e instanceof BaasError ? e.fieldErrors : {};
+}
+
 export interface RequestOptions {
   method?: string;
   body?: unknown;
   /** 401 을 에러가 아닌 정상 신호로 취급(비로그인 판별용) */
   allow401?: boolean;
+  /** 요청별 재시도 정책(init 의 전역 정책 위에 덮어씀). false 면 재시도 안 함 */
+  retry?: Partial<RetryPolicy> | false;
+  /** 취소 신호 — abort 시 BaasError(errorCode "ABORTED") 로 reject */
+  signal?: AbortSignal;
+  /** 시도 1회당 제한 시간(ms). 초과 시 BaasError(errorCode "TIMEOUT"). 0 이면 무제한 */
+  timeoutMs?: number;
 }
 
-export async function request<T>(path: string, opts: RequestOptions = {}): Promise<T> {
-  const url = `${getBaseUrl()}${path}`;
-  const res = await fetch(url, {
-    method: opts.method || "GET",
-    headers: {
-      "Content-Type": "application/json",
-      "X-Baas-Sdk-Version": SDK_VERSION, // 서버 로그로 프로젝트별 실사용 버전 파악
-    },
-    credentials: "include",
-    body: opts.body != null ? JSON.stringify(opts.body) : undefined,
+/** 공개 core 함수가 받는 호출 옵션 — transport 동작만 조정한다 */
+export type CallOptions = Pick<RequestOptions, "retry" | "signal" | "timeoutMs">;
+
+/** 취소/시간초과는 status 0 — 서버 응답이 없었음을 뜻한다(앱은 errorCode 로 실패와 구분) */
+export function abortError(): BaasError {
+  return new BaasError("요청이 취소되었습니다.", "ABORTED", 0);
+}
+function timeoutError(): BaasError {
+  return new BaasError("요청 시간이 초과되었습니다.", "TIMEOUT", 0);
+}
+
+function resolveRetry(config: BaasConfig, opts: RequestOptions): RetryPolicy {
+  if (opts.retry === false) return { ...DEFAULT_RETRY, retries: 0 };
+  return { ...DEFAULT_RETRY, ...config.retry, ...opts.retry };
+}
+
+/** Retry-After(초 또는 HTTP-date) → ms. 없거나 해석 불가면 null */
+function parseRetryAfter(res: Response): number | null {
+  const v = res.headers?.get?.("Retry-After");
+  if (!v) return null;
+  const sec = Number(v);
+  if (!Number.isNaN(sec)) return Math.max(0, sec * 1000);
+  const at = Date.parse(v);
+  return Number.isNaN(at) ? null : Math.max(0, at - Date.now());
+}
+
+function backoff(policy: RetryPolicy, attempt: number): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * cap; // full jitter — 동시 실패한 클라이언트가 같은 시점에 몰리지 않게
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
+}
+
+/** 시도 1회용 AbortController — 호출부 signal 과 timeout 을 하나로 합친다 */
+function attemptSignal(signal: AbortSignal | undefined, timeoutMs: number) {
+  const ctrl = new AbortController();
+  let timedOut = false;
+  const onAbort = () => ctrl.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = timeoutMs > 0 ? setTimeout(() => { timedOut = true; ctrl.abort(); }, timeoutMs) : null;
+  return {
+    signal: ctrl.signal,
+    timedOut: () => timedOut,
+    dispose() {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+export type RequestFn = <T>(path: string, opts?: RequestOptions) => Promise<T>;
+
+/** request 가 의존하는 인스턴스 상태 — 기본 인스턴스와 createClient() 인스턴스가 각자 주입한다 */
+export interface TransportDeps {
+  getConfig: () => BaasConfig;
+  getMiddlewares: () => Middleware[];
+  emit: Emitter["emit"];
+}
+
+export function createRequest(deps: TransportDeps): RequestFn {
+  return async function request<T>(path: string, opts: RequestOptions = {}): Promise<T> {
+    const chain = deps.getMiddlewares();
+    let ctx: RequestContext = {
+      url: `${deps.getConfig().baseUrl}${path}`,
+      path,
+      method: (opts.method || "GET").toUpperCase(),
+      headers: {
+        "Content-Type": "application/json",
+        "X-Baas-Sdk-Version": SDK_VERSION, // 서버 로그로 프로젝트별 실사용 버전 파악
+      },
+      body: opts.body,
+      meta: {},
+    };
+    for (const mw of chain) {
+      if (mw.onRequest) ctx = (await mw.onRequest(ctx)) || ctx;
+    }
 
+    let data: unknown;
+    try {
+      data = await send<T>(deps, ctx, opts);
+    } catch (e) {
+      let err = e;
+      for (const mw of chain) {
+        if (mw.onError) err = (await mw.onError(err, ctx)) ?? err;
+      }
+      throw err;
+    }
+    for (const mw of chain) {
+      if (mw.onResponse) {
+        const next = await mw.onResponse(data, ctx);
+        if (next !== undefined) data = next;
+      }
+    }
+    return data as T;
+  };
+}
+
+/** 재시도·타임아웃을 포함한 실제 발신 — ctx 는 미들웨어를 거친 최종 요청 */
+async function send<T>(deps: TransportDeps, ctx: RequestContext, opts: RequestOptions): Promise<T> {
+  const config = deps.getConfig();
+  const policy = resolveRetry(config, opts);
+  const retryable = policy.retryWrites || ctx.method === "GET" || ctx.method === "HEAD";
+  const timeoutMs = opts.timeoutMs ?? config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    if (opts.signal?.aborted) throw abortError();
+    const canRetry = retryable && attempt < policy.retries;
+    const att = attemptSignal(opts.signal, timeoutMs);
+    try {
+      let res: Response;
+      try {
+        res = await fetch(ctx.url, {
+          method: ctx.method,
+          headers: ctx.headers,
+          credentials: "include",
+          body: ctx.body != null ? JSON.stringify(ctx.body) : undefined,
+          signal: att.signal,
+        });
+      } catch (e) {
+        if (opts.signal?.aborted) throw abortError();
+        // 네트워크 오류·시간초과 — 요청이 서버에 닿았는지 알 수 없으므로 멱등 요청만 재시도
+        if (!canRetry) throw att.timedOut() ? timeoutError() : e;
+        await sleep(backoff(policy, attempt), opts.signal);
+        continue;
+      }
+
+      if (canRetry && policy.statuses.includes(res.status)) {
+        const after = parseRetryAfter(res);
+        if (after === null || after <= policy.maxDelayMs) {
+          await sleep(after ?? backoff(policy, attempt), opts.signal);
+          continue;
+        }
+      }
+      try {
+        return await unwrap<T>(deps, res, ctx, opts);
+      } catch (e) {
+        // 본문 수신 중 abort 되면 json() 실패가 "비-JSON 응답"으로 보이므로 원인을 되살린다
+        if (att.signal.aborted) throw opts.signal?.aborted ? abortError() : timeoutError();
+        throw e;
+      }
+    } finally {
+      att.dispose();
+    }
+  }
+}
+
+async function unwrap<T>(deps: TransportDeps, res: Response, ctx: RequestContext, opts: RequestOptions): Promise<T> {
   let env: Envelope<T> | null = null;
   try {
     env = (await res.json()) as Envelope<T>;
@@ -46,13 +241,21 @@ export async function request<T>(path: string, opts: RequestOptions = {}): Promi
   if (res.status === 401 && opts.allow401) {
     throw new BaasError(env?.message || "unauthorized", env?.errorCode || "UNAUTHORIZED", 401);
   }
+  if (res.status === 401) {
+    // 세션 만료인지(로그인 중이었는지)는 transport 가 모른다 — auth 가 판단해 session-expired 로 바꾼다
+    deps.emit("unauthorized", { path: ctx.path, errorCode: env?.errorCode || null });
+  }
 
-  if (!env || env.result !== "SUCCESS") {
+  if (!env || (env.result !== "SUCCESS" && env.result !== true)) {
     throw new BaasError(
       env?.message || `요청 실패 (HTTP ${res.status})`,
       env?.errorCode || null,
-      res.status
+      res.status,
+      env?.detail
     );
   }
   return env.data as T;
 }
+
+/** 기본 인스턴스(init 설정)의 request — 모든 최상위 core 함수가 이걸 거친다 */
+export const request: RequestFn = createRequest({ getConfig, getMiddlewares, emit });
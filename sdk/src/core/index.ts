@@ -1,6 +1,18 @@
 /** core 엔트리 — framework 무관 표면. */
 export { init, getConfig, getProjectId, getBaseUrl } from "./config";
-export { request, BaasError } from "./http";
+export { request, BaasError, fieldErrorsOf } from "./http";
+export type { RequestOptions, CallOptions, FieldErrors } from "./http";
+export { isBaasError, getErrorMessage, setErrorMessages, errorCatalogs } from "./errors";
+export type { BaasErrorCode, ErrorLocale, ErrorMessages } from "./errors";
+export type { BaasConfig, RetryPolicy, InitOptions } from "./config";
+export { createClient } from "./client";
+export type { BaasClient } from "./client";
+export { use } from "./middleware";
+export type { Middleware, RequestContext } from "./middleware";
+export { on } from "./events";
+export { invalidateQueries } from "./context";
+export type { CacheOptions, QueryCallOptions } from "./queryCache";
+export type { BaasEventMap, BaasEventType, AuthSyncType } from "./events";
 export {
   signup,
   login,
@@ -9,13 +21,39 @@ export {
   changePassword,
   checkAuth,
   clearAuthCache,
+  startAuthSync,
+  stopAuthSync,
 } from "./auth";
+export {
+  validateSignup,
+  validatePassword,
+  normalizePhone,
+  formatPhone,
+  isValidPhone,
+  MIN_PASSWORD_LENGTH,
+  MAX_NAME_LENGTH,
+  PHONE_PATTERN,
+} from "./validation";
+export type { SignupInput, SignupRules } from "./validation";
+export { authDenyReason, isAccountBlocked } from "./authGuard";
+export type { AuthDenyReason, AuthGuardRules } from "./authGuard";
 export {
   listPosts,
   getPost,
+  getBoardSettings,
+  isReviewPost,
+  isLinkPost,
+  validatePostInput,
+  categoryChips,
+  isChipActive,
+  MIN_RATING,
+  MAX_RATING,
   createPost,
   updatePost,
   deletePost,
+  togglePostHidden,
+  reportPost,
+  REPORT_REASON_LABELS,
 } from "./board";
 export {
   listNoticePosts,
@@ -23,10 +61,26 @@ export {
   listFaqPosts,
   getFaqPost,
   listComments,
+  listCommentThreads,
   createComment,
   updateComment,
   deleteComment,
+  toggleCommentHidden,
+  reportComment,
+  buildCommentTree,
+  countComments,
 } from "./notice";
+export { uploadFiles, validateFiles, MAX_UPLOAD_BYTES } from "./upload";
+export {
+  isNoticeUnread,
+  unreadNoticeCount,
+  markNoticeRead,
+  markAllNoticesRead,
+  NOTICE_NEW_WITHIN_DAYS,
+} from "./noticeRead";
+export { sanitizeHtml, sanitizeUrl, safeReturnUrl } from "./sanitize";
+export { saveDraft, loadDraft, clearDraft, listDrafts, DRAFT_MAX_AGE_MS } from "./draft";
+export { fetchPage, createInfiniteList, totalOf, pageCountOf, DEFAULT_PAGE_SIZE } from "./paginate";
 export { registerRecipient } from "./recipient";
 export { listSurveys, getSurvey, submitSurveyResponse } from "./survey";
 export {
@@ -65,12 +119,24 @@ export type {
 } from "./types";
 export type {
   BoardPost,
+  BoardType,
+  BoardSettings,
+  CategoryGroup,
+  CategoryChip,
   PostListResult,
   PostListOptions,
   PostCreateInput,
+  ReportReason,
+  ReportInput,
+  Report,
 } from "./board";
-export type { Comment } from "./notice";
+export type { Comment, CommentThread, CommentListResult, CommentSort, CommentInput } from "./notice";
+export type { BoardFile, UploadProgress, UploadOptions } from "./upload";
+export type { NoticeReadOptions } from "./noticeRead";
+export type { SanitizeOptions } from "./sanitize";
+export type { PostDraft, PostDraftFields, DraftEntry } from "./draft";
+export type { PageSource, PageFilters, Page, InfiniteList, InfiniteState } from "./paginate";
 export type { RecipientInput } from "./recipient";
 export type { Survey } from "./survey";
 export type { ReservationTarget } from "./reservation";
-export type { StoreConfig, Product } from "./store";
+export type { StoreConfig, Product, ProductListResult } from "./store";
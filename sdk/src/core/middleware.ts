@@ -0,0 +1,54 @@
+/**
+ * transport 미들웨어 — 앱이 SDK 를 포크하지 않고 요청/응답에 끼어드는 확장점.
+ * 추적 헤더 추가·타이밍 로깅·에러 재작성 등. init({ middleware }) 또는 use() 로 등록한다.
+ * 실행 순서는 등록 순서(init 목록 → use 순)이며 요청 1건당 각 훅이 1회 호출된다(재시도 포함).
+ */
+import { getConfig } from "./config";
+import type { BaasConfig } from "./config";
+
+export interface RequestContext {
+  /** baseUrl 이 붙은 최종 URL */
+  url: string;
+  /** baseUrl 을 뺀 API 경로(/account/login 등) — 로깅 키로 쓰기 좋다 */
+  path: string;
+  method: string;
+  headers: Record<string, string>;
+  body: unknown;
+  /** 미들웨어 간 공유 저장소(시작 시각 등) */
+  meta: Record<string, unknown>;
+}
+
+export interface Middleware {
+  /** 발신 전. ctx 를 직접 수정하거나 새 ctx 를 반환한다 */
+  onRequest?: (ctx: RequestContext) => void | RequestContext | Promise<void | RequestContext>;
+  /** envelope 언랩 후 data. 값을 반환하면 그 값으로 교체한다 */
+  onResponse?: (data: unknown, ctx: RequestContext) => unknown | Promise<unknown>;
+  /** 실패(BaasError·네트워크 오류). 에러를 반환하면 그 에러로 교체한다 — 어떤 경우든 호출부엔 throw */
+  onError?: (error: unknown, ctx: RequestContext) => unknown | Promise<unknown>;
+}
+
+export interface MiddlewareRegistry {
+  /** 미들웨어 등록. 반환 함수를 호출하면 해제된다 */
+  use(middleware: Middleware): () => void;
+  /** 실행 순서대로(config.middleware → use 등록순) */
+  list(): Middleware[];
+}
+
+export function createMiddlewareRegistry(getConfig: () => BaasConfig): MiddlewareRegistry {
+  const registered: Middleware[] = [];
+  return {
+    use(middleware) {
+      registered.push(middleware);
+      return () => {
+        const i = registered.indexOf(middleware);
+        if (i >= 0) registered.splice(i, 1);
+      };
+    },
+    list: () => [...(getConfig().middleware ?? []), ...registered],
+  };
+}
+
+// 기본 인스턴스의 레지스트리
+const registry = createMiddlewareRegistry(getConfig);
+export const use = registry.use;
+export const getMiddlewares = registry.list;
@@ -1,40 +1,148 @@
 /** 공지사항/FAQ (정적 게시판, 공개 읽기 전용) + 게시글 댓글. */
-import { request } from "./http";
-import { getProjectId } from "./config";
-import type { PostListResult, BoardPost, PostListOptions } from "./board";
-
-function listStatic(kind: "notice" | "faq", options: PostListOptions): Promise<PostListResult> {
-  const params = new URLSearchParams();
-  if (options.offset !== undefined) params.append("offset", String(options.offset));
-  if (options.limit !== undefined) params.append("limit", String(options.limit));
-  if (options.keyword) params.append("keyword", options.keyword);
-  const qs = params.toString();
-  return request<PostListResult>(
-    `/public/boards/${kind}/${getProjectId()}/posts${qs ? `?${qs}` : ""}`
-  );
-}
-
-export const listNoticePosts = (o: PostListOptions = {}) => listStatic("notice", o);
-export const getNoticePost = (postId: string) =>
-  request<BoardPost>(`/public/boards/notice/${getProjectId()}/posts/${postId}`);
-export const listFaqPosts = (o: PostListOptions = {}) => listStatic("faq", o);
-export const getFaqPost = (postId: string) =>
-  request<BoardPost>(`/public/boards/faq/${getProjectId()}/posts/${postId}`);
+import type { CallOptions } from "./http";
+import type { QueryCallOptions } from "./queryCache";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
+import type { PostListResult, BoardPost, PostListOptions, ReportInput, Report } from "./board";
 
-// ── 댓글 (동적 게시판 게시글) ──
+/** 댓글 (동적 게시판 게시글). 대댓글은 1레벨만 — parent_id 는 루트 댓글 id */
 export interface Comment {
   id: string;
   content: string;
+  post_id?: string;
+  parent_id?: string | null;
+  author_id?: string;
   author_name?: string;
+  is_hidden?: boolean;
   created_at?: string;
+  updated_at?: string | null;
   [key: string]: unknown;
 }
 
-export const listComments = (postId: string, sort = "latest") =>
-  request<Comment[]>(`/public/boards/posts/${postId}/comments?sort=${sort}`);
-export const createComment = (postId: string, data: { content: string; [k: string]: unknown }) =>
-  request<Comment>(`/boards/posts/${postId}/comments`, { method: "POST", body: data });
-export const updateComment = (postId: string, commentId: string, data: { content: string }) =>
-  request<Comment>(`/boards/posts/${postId}/comments/${commentId}`, { method: "PUT", body: data });
-export const deleteComment = (postId: string, commentId: string) =>
-  request<boolean>(`/boards/posts/${postId}/comments/${commentId}`, { method: "DELETE" });
+/** 루트 댓글 + 대댓글 */
+export interface CommentThread extends Comment {
+  replies: Comment[];
+}
+
+export interface CommentListResult {
+  items: CommentThread[];
+  /** 대댓글 포함 전체 수 */
+  total_count: number;
+}
+
+/** 루트 댓글 정렬(대댓글은 항상 오래된 순). 서버 기본 oldest */
+export type CommentSort = "oldest" | "newest";
+
+export interface CommentInput {
+  content: string;
+  /** 대댓글이면 루트 댓글 id(대댓글에 답글은 서버가 BAD_REQUEST) */
+  parent_id?: string;
+}
+
+/**
+ * 응답 → 루트/대댓글 트리. 서버는 이미 트리로 주지만 replies 가 빠지거나
+ * parent_id 달린 항목이 루트에 섞여 와도 같은 모양으로 맞춘다.
+ */
+export function buildCommentTree(items: Comment[]): CommentThread[] {
+  const roots: CommentThread[] = [];
+  const byId = new Map<string, CommentThread>();
+  const orphans: Comment[] = [];
+  for (const item of items) {
+    if (item.parent_id) {
+      orphans.push(item);
+      continue;
+    }
+    const thread: CommentThread = { ...item, replies: [...((item.replies as Comment[] | undefined) ?? [])] };
+    roots.push(thread);
+    byId.set(thread.id, thread);
+  }
+  for (const reply of orphans) {
+    const parent = byId.get(reply.parent_id!);
+    if (parent) parent.replies.push(reply);
+    else roots.push({ ...reply, replies: [] }); // 부모가 이 페이지에 없으면 루트로라도 보여준다
+  }
+  return roots;
+}
+
+/** 대댓글 포함 댓글 수 */
+export function countComments(threads: CommentThread[]): number {
+  return threads.reduce((n, t) => n + 1 + t.replies.length, 0);
+}
+
+export function createNoticeApi({ request, query, invalidate, getProjectId }: ClientContext) {
+  function listStatic(kind: "notice" | "faq", options: PostListOptions, call: QueryCallOptions<PostListResult>): Promise<PostListResult> {
+    const params = new URLSearchParams();
+    if (options.offset !== undefined) params.append("offset", String(options.offset));
+    if (options.limit !== undefined) params.append("limit", String(options.limit));
+    if (options.keyword) params.append("keyword", options.keyword);
+    const qs = params.toString();
+    return query<PostListResult>(`/public/boards/${kind}/${getProjectId()}/posts${qs ? `?${qs}` : ""}`, call);
+  }
+
+  const listNoticePosts = (o: PostListOptions = {}, call: QueryCallOptions<PostListResult> = {}) => listStatic("notice", o, call);
+  /** 상세는 getPost 처럼 opt-in({ cache: {} }) 때만 캐시 — 조회수·숨김·권한이 매번 서버 기준 */
+  function getStatic(kind: "notice" | "faq", postId: string, call: QueryCallOptions<BoardPost>): Promise<BoardPost> {
+    const key = `/public/boards/${kind}/${getProjectId()}/posts/${postId}`;
+    const { cache, ...rest } = call;
+    return cache ? query<BoardPost>(key, call) : request<BoardPost>(key, rest);
+  }
+
+  const getNoticePost = (postId: string, call: QueryCallOptions<BoardPost> = {}) => getStatic("notice", postId, call);
+  const listFaqPosts = (o: PostListOptions = {}, call: QueryCallOptions<PostListResult> = {}) => listStatic("faq", o, call);
+  const getFaqPost = (postId: string, call: QueryCallOptions<BoardPost> = {}) => getStatic("faq", postId, call);
+
+  // ── 댓글 (동적 게시판 게시글) — 쓰기 후 그 게시글의 댓글 목록·상세(comment_count) 캐시 무효화 ──
+  const postKey = (postId: string) => `/public/boards/posts/${postId}`;
+  const afterWrite = <T>(postId: string) => (result: T) => {
+    invalidate(postKey(postId));
+    return result;
+  };
+
+  /** 기존 표면(기본 정렬 "latest", 평면 배열) 그대로. 대댓글 트리·전체 수는 listCommentThreads */
+  const listComments = (postId: string, sort = "latest", call: QueryCallOptions<Comment[]> = {}) =>
+    query<Comment[]>(`${postKey(postId)}/comments?sort=${sort}`, call);
+  /** 루트 댓글(replies 포함) + 대댓글 포함 전체 수. 기본 정렬은 서버 기본 "oldest" */
+  const listCommentThreads = (postId: string, sort: CommentSort = "oldest", call: QueryCallOptions<CommentListResult> = {}) =>
+    query<CommentListResult>(`${postKey(postId)}/comments?sort=${sort}`, call);
+  const createComment = (postId: string, data: CommentInput, call: CallOptions = {}) =>
+    request<Comment>(`/boards/posts/${postId}/comments`, { method: "POST", body: data, ...call }).then(afterWrite<Comment>(postId));
+  const updateComment = (postId: string, commentId: string, data: { content: string }, call: CallOptions = {}) =>
+    request<Comment>(`/boards/posts/${postId}/comments/${commentId}`, { method: "PUT", body: data, ...call }).then(afterWrite<Comment>(postId));
+  const deleteComment = (postId: string, commentId: string, call: CallOptions = {}) =>
+    request<boolean>(`/boards/posts/${postId}/comments/${commentId}`, { method: "DELETE", ...call }).then(afterWrite<boolean>(postId));
+  // 숨김/신고 경로엔 post_id 가 없다 — 숨김은 응답의 post_id 로 무효화
+  const toggleCommentHidden = (commentId: string, isHidden: boolean, call: CallOptions = {}) =>
+    request<Comment>(`/boards/comments/${commentId}/hidden`, { method: "PATCH", body: { is_hidden: isHidden }, ...call }).then(
+      (comment) => (comment.post_id ? afterWrite<Comment>(comment.post_id)(comment) : comment)
+    );
+  const reportComment = (commentId: string, data: ReportInput, call: CallOptions = {}) =>
+    request<Report>(`/boards/comments/${commentId}/report`, { method: "POST", body: data, ...call });
+
+  return {
+    listNoticePosts,
+    getNoticePost,
+    listFaqPosts,
+    getFaqPost,
+    listComments,
+    listCommentThreads,
+    createComment,
+    updateComment,
+    deleteComment,
+    toggleCommentHidden,
+    reportComment,
+  };
+}
+
+export const {
+  listNoticePosts,
+  getNoticePost,
+  listFaqPosts,
+  getFaqPost,
+  listComments,
+  listCommentThreads,
+  createComment,
+  updateComment,
+  deleteComment,
+  toggleCommentHidden,
+  reportComment,
+} = createNoticeApi(defaultContext);
@@ -0,0 +1,84 @@
+/**
+ * 공지 읽음 표시 — 방문자가 본 공지를 브라우저(localStorage, 프로젝트별)에 기억해 "새 글" 배지를 만든다.
+ * 서버 변경 없음: 공지 id → 읽을 때의 created_at 으로 기록하므로, 같은 id 로 다시 게시(created_at 변경)되면 다시 새 글이다.
+ * 처음 온 방문자에게 오래된 공지까지 전부 새 글로 보이지 않게 newWithinDays 이전 글은 읽은 것으로 본다.
+ */
+import type { BoardPost } from "./board";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
+import { localStore, readJson, writeJson } from "./storage";
+
+export interface NoticeReadOptions {
+  /** 이 일수보다 오래된 공지는 새 글로 치지 않는다. 기본 30 */
+  newWithinDays?: number;
+}
+
+export const NOTICE_NEW_WITHIN_DAYS = 30;
+
+/** 기록을 무한히 늘리지 않게 최근 것만 남긴다 */
+const MAX_READ_ENTRIES = 200;
+
+interface ReadState {
+  /** 공지 id → 읽을 때의 created_at */
+  read: Record<string, string>;
+  /** "모두 읽음" 시각(ISO) — 이전에 작성된 공지는 전부 읽음 */
+  all_read_at: string | null;
+}
+
+type NoticeRef = Pick<BoardPost, "id" | "created_at">;
+
+const time = (iso: string | null | undefined) => (iso ? Date.parse(iso) || 0 : 0);
+
+function unread(post: NoticeRef, state: ReadState, opts: NoticeReadOptions): boolean {
+  const created = time(post.created_at);
+  const days = opts.newWithinDays ?? NOTICE_NEW_WITHIN_DAYS;
+  if (created && Date.now() - created > days * 24 * 60 * 60 * 1000) return false;
+  if (state.all_read_at && created && created <= time(state.all_read_at)) return false;
+  return state.read[post.id] !== (post.created_at ?? "");
+}
+
+export function createNoticeReadApi({ getProjectId, emit }: ClientContext) {
+  const keyOf = () => `baas-notice-read:${getProjectId()}`;
+  const load = (): ReadState => {
+    const s = readJson<ReadState>(keyOf());
+    return { read: s?.read ?? {}, all_read_at: s?.all_read_at ?? null };
+  };
+  const save = (state: ReadState) => {
+    writeJson(keyOf(), state);
+    emit("notice-read", {});
+  };
+
+  // 기록할 수 없는 환경(storage 불가)에선 읽어도 배지가 안 사라지므로 아예 새 글로 치지 않는다
+  function isNoticeUnread(post: NoticeRef, opts: NoticeReadOptions = {}): boolean {
+    return !!localStore() && unread(post, load(), opts);
+  }
+
+  function unreadNoticeCount(posts: NoticeRef[], opts: NoticeReadOptions = {}): number {
+    if (!localStore()) return 0;
+    const state = load();
+    return posts.filter((p) => unread(p, state, opts)).length;
+  }
+
+  /** 상세를 열었을 때 호출. 여러 건을 한 번에 넘겨도 된다 */
+  function markNoticeRead(posts: NoticeRef | NoticeRef[]): void {
+    const state = load();
+    for (const p of Array.isArray(posts) ? posts : [posts]) state.read[p.id] = p.created_at ?? "";
+    const entries = Object.entries(state.read);
+    if (entries.length > MAX_READ_ENTRIES) {
+      // 오래된 공지 기록부터 버린다 — 버려진 글은 all_read_at·newWithinDays 로 대부분 읽음 처리된다
+      entries.sort((a, b) => time(b[1]) - time(a[1]));
+      state.read = Object.fromEntries(entries.slice(0, MAX_READ_ENTRIES));
+    }
+    save(state);
+  }
+
+  /** "모두 읽음" — 지금까지 작성된 공지 전부 */
+  function markAllNoticesRead(): void {
+    save({ read: {}, all_read_at: new Date().toISOString() });
+  }
+
+  return { isNoticeUnread, unreadNoticeCount, markNoticeRead, markAllNoticesRead };
+}
+
+export const { isNoticeUnread, unreadNoticeCount, markNoticeRead, markAllNoticesRead } =
+  createNoticeReadApi(defaultContext);
@@ -0,0 +1,126 @@
+/**
+ * 목록 페이지 계산 — PostListResult 를 돌려주는 어떤 목록 함수(listPosts/listNoticePosts/listFaqPosts)에도 쓴다.
+ * offset 계산과 total/total_count 차이를 여기서 한 번만 처리한다.
+ *  - 페이지 번호 모드: fetchPage(source, page) → 그 페이지 + pageCount
+ *  - 무한 스크롤 모드: createInfiniteList(source).loadMore() → 누적 items + hasMore
+ */
+import type { BoardPost, PostListOptions, PostListResult } from "./board";
+import { mapCacheUpdate } from "./queryCache";
+import type { QueryCallOptions } from "./queryCache";
+
+/** (필터+offset/limit, 호출 옵션) → 목록. listNoticePosts 는 그대로, 게시판은 (o, c) => listPosts(BOARD_ID, o, c) */
+export type PageSource = (options: PostListOptions, call?: QueryCallOptions<PostListResult>) => Promise<PostListResult>;
+
+/** offset/limit 을 뺀 필터(keyword/category/category_group) */
+export type PageFilters = Omit<PostListOptions, "offset" | "limit">;
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+export interface Page {
+  items: BoardPost[];
+  /** 1부터 */
+  page: number;
+  pageSize: number;
+  /** 서버가 전체 수를 주지 않으면 null */
+  total: number | null;
+  pageCount: number | null;
+  hasMore: boolean;
+  /** 원 응답(board_settings 등) */
+  result: PostListResult;
+}
+
+/** 동적 게시판은 total_count, 정적(공지/FAQ)은 total */
+export function totalOf(result: PostListResult): number | null {
+  const t = result.total_count ?? result.total;
+  return typeof t === "number" ? t : null;
+}
+
+export function pageCountOf(total: number | null, pageSize: number): number | null {
+  return total === null ? null : Math.max(1, Math.ceil(total / pageSize));
+}
+
+export async function fetchPage(
+  source: PageSource,
+  page: number,
+  { pageSize = DEFAULT_PAGE_SIZE, filters = {} }: { pageSize?: number; filters?: PageFilters } = {},
+  call: QueryCallOptions<Page> = {}
+): Promise<Page> {
+  const p = Math.max(1, Math.floor(page));
+  const offset = (p - 1) * pageSize;
+  const toPage = (result: PostListResult): Page => {
+    const items = result.items ?? [];
+    const total = totalOf(result);
+    return {
+      items,
+      page: p,
+      pageSize,
+      total,
+      pageCount: pageCountOf(total, pageSize),
+      // 전체 수를 모르면 꽉 찬 페이지 = 다음이 있을 수 있음
+      hasMore: total === null ? items.length === pageSize : offset + items.length < total,
+      result,
+    };
+  };
+  // 백그라운드 재조회 결과도 응답 원형이 아닌 Page 로 전달
+  return toPage(await source({ ...filters, offset, limit: pageSize }, mapCacheUpdate(call, toPage)));
+}
+
+export interface InfiniteList {
+  /** 다음 페이지를 이어 붙인다. 이미 끝이면 현재 상태 그대로 */
+  loadMore(call?: QueryCallOptions<Page>): Promise<InfiniteState>;
+  /** 처음부터(필터 변경·당겨서 새로고침) */
+  reset(): void;
+  state(): InfiniteState;
+}
+
+export interface InfiniteState {
+  items: BoardPost[];
+  /** 불러온 페이지 수 */
+  pages: number;
+  total: number | null;
+  hasMore: boolean;
+}
+
+export function createInfiniteList(
+  source: PageSource,
+  opts: { pageSize?: number; filters?: PageFilters } = {}
+): InfiniteList {
+  const empty = (): InfiniteState => ({ items: [], pages: 0, total: null, hasMore: true });
+  let state = empty();
+  let generation = 0;
+  let pending: Promise<InfiniteState> | null = null; // 스크롤 끝 이벤트 연타 — 같은 페이지를 두 번 부르지 않게
+
+  async function load(call: QueryCallOptions<Page>): Promise<InfiniteState> {
+    const gen = generation;
+    const page = await fetchPage(source, state.pages + 1, opts, call);
+    if (gen !== generation) return state; // 도중에 reset 됨 — 이전 필터의 결과는 버린다
+    // 페이지 사이에 새 글이 끼면 offset 이 밀려 같은 글이 다시 온다 — id 로 중복 제거
+    const seen = new Set(state.items.map((i) => i.id));
+    state = {
+      items: [...state.items, ...page.items.filter((i) => !seen.has(i.id))],
+      pages: page.page,
+      total: page.total,
+      hasMore: page.hasMore,
+    };
+    return state;
+  }
+
+  return {
+    loadMore(call = {}) {
+      if (!state.hasMore) return Promise.resolve(state);
+      if (!pending) {
+        const p = load(call).finally(() => {
+          if (pending === p) pending = null;
+        });
+        pending = p;
+      }
+      return pending;
+    },
+    reset() {
+      generation++;
+      pending = null;
+      state = empty();
+    },
+    state: () => state,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * 공개 조회 캐시 — 키(엔드포인트+쿼리) 단위 TTL · stale-while-revalidate · 진행 중 요청 합치기.
+ * checkAuth 의 /account/info 합치기를 일반화한 것. 목록 화면으로 돌아올 때 스피너 대신 캐시를 즉시 보여준다.
+ *  - 신선(ttl 이내): 캐시 그대로
+ *  - 오래됨(staleTime 이내): 캐시를 즉시 반환하고 뒤에서 재조회 → cache.onUpdate 로 새 값 전달
+ *  - 만료/없음: 조회(같은 키 동시 요청은 1회로 합침)
+ * 저장할 때 staleTime 이 지난 항목을 버리고, 상한(maxEntries)을 넘으면 오래된 것부터 버린다(검색어마다 키가 쌓이지 않게).
+ * 쓰기(createPost/deleteComment 등)는 관련 키 prefix 를 invalidate 한다.
+ */
+import { abortError } from "./http";
+import type { CallOptions } from "./http";
+
+export interface CacheOptions<T = unknown> {
+  /** 캐시를 무시하고 재조회(결과는 캐시에 반영) */
+  force?: boolean;
+  /** 이 호출에서의 신선 기간(ms) */
+  ttlMs?: number;
+  /** 오래된 캐시를 돌려준 뒤 백그라운드 재조회가 끝나면 새 값으로 호출 */
+  onUpdate?: (data: T) => void;
+}
+
+/** 캐시되는 공개 조회 함수의 호출 옵션. cache:false 면 캐시를 쓰지도 채우지도 않는다 */
+export type QueryCallOptions<T = unknown> = CallOptions & { cache?: CacheOptions<T> | false };
+
+export interface QueryCache {
+  query<T>(key: string, fetcher: (call: CallOptions) => Promise<T>, call?: QueryCallOptions<T>): Promise<T>;
+  /** prefix 와 일치하는 키(정확히 같거나 뒤에 / 또는 ? 가 이어지는 키) 무효화. 생략 시 전체 */
+  invalidate(prefix?: string): void;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 10_000;
+export const DEFAULT_CACHE_STALE_MS = 5 * 60_000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 200;
+
+/**
+ * 응답을 가공해 돌려주는 조회(설정만 꺼내기·Page 만들기)용 — 백그라운드 재조회 결과도 같은 가공을 거쳐 onUpdate 로.
+ * call 은 가공 후 타입(B) 기준, 반환값은 원 조회(A)에 넘길 옵션.
+ */
+export function mapCacheUpdate<A, B>(call: QueryCallOptions<B>, map: (data: A) => B): QueryCallOptions<A> {
+  const { cache, ...rest } = call;
+  if (!cache) return { ...rest, cache };
+  const { onUpdate, ...opts } = cache;
+  return { ...rest, cache: onUpdate ? { ...opts, onUpdate: (data: A) => onUpdate(map(data)) } : opts };
+}
+
+const matches = (key: string, prefix: string) =>
+  key === prefix || (key.startsWith(prefix) && (key[prefix.length] === "/" || key[prefix.length] === "?"));
+
+/** 호출부 signal 로는 공유 요청을 끊지 않는다 — 이 호출만 ABORTED 로 빠지고 응답은 캐시에 남는다 */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (v) => { signal.removeEventListener("abort", onAbort); resolve(v); },
+      (e) => { signal.removeEventListener("abort", onAbort); reject(e); }
+    );
+  });
+}
+
+export function createQueryCache(
+  ttlMs = DEFAULT_CACHE_TTL_MS,
+  staleMs = DEFAULT_CACHE_STALE_MS,
+  maxEntries = DEFAULT_CACHE_MAX_ENTRIES
+): QueryCache {
+  // 저장 순서 = 저장 시각 순(다시 저장하면 뒤로) — 앞에서부터 보면 가장 오래된 항목
+  const entries = new Map<string, { data: unknown; at: number }>();
+  // 진행 중 요청. invalidate 는 일치하는 키만 여기서 뺀다 — 빠진(무효화 전에 출발한) 응답은 캐시를 되살리지 않는다
+  const inflight = new Map<string, Promise<unknown>>();
+
+  function store(key: string, data: unknown) {
+    const now = Date.now();
+    entries.delete(key);
+    entries.set(key, { data, at: now });
+    for (const [k, e] of entries) {
+      if (entries.size <= maxEntries && now - e.at < staleMs) break;
+      entries.delete(k);
+    }
+  }
+
+  function load<T>(key: string, fetcher: (call: CallOptions) => Promise<T>, call: CallOptions): Promise<T> {
+    const pending = inflight.get(key);
+    if (pending) return pending as Promise<T>;
+    const p: Promise<T> = fetcher({ retry: call.retry, timeoutMs: call.timeoutMs })
+      .then((data) => {
+        if (inflight.get(key) === p) store(key, data);
+        return data;
+      })
+      .finally(() => {
+        if (inflight.get(key) === p) inflight.delete(key);
+      });
+    inflight.set(key, p);
+    return p;
+  }
+
+  return {
+    query<T>(key: string, fetcher: (call: CallOptions) => Promise<T>, call: QueryCallOptions<T> = {}): Promise<T> {
+      if (call.cache === false) return fetcher(call);
+      const opts = call.cache ?? {};
+      const hit = entries.get(key);
+      if (hit && !opts.force) {
+        // 같은 키는 같은 fetcher(같은 엔드포인트)로만 채워진다 — 저장된 값의 타입은 T
+        const data = hit.data as T;
+        const age = Date.now() - hit.at;
+        if (age < (opts.ttlMs ?? ttlMs)) return Promise.resolve(data);
+        if (age < staleMs) {
+          load(key, fetcher, call).then(opts.onUpdate, () => {
+            // 백그라운드 재조회 실패는 삼킨다 — 화면엔 이미 캐시가 떠 있다
+          });
+          return Promise.resolve(data);
+        }
+      }
+      return raceAbort(load(key, fetcher, call), call.signal);
+    },
+
+    invalidate(prefix) {
+      for (const map of [entries, inflight] as Map<string, unknown>[]) {
+        for (const key of [...map.keys()]) {
+          if (prefix === undefined || matches(key, prefix)) map.delete(key);
+        }
+      }
+    },
+  };
+}
@@ -1,6 +1,7 @@
 /** 발송대상(연락처) 등록 — POST /recipient/{projectId} */
-import { request } from "./http";
-import { getProjectId } from "./config";
+import type { CallOptions } from "./http";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
 
 export interface RecipientInput {
   name: string;
@@ -9,14 +10,21 @@ export interface RecipientInput {
   metadata?: Record<string, unknown>;
 }
 
-export function registerRecipient(input: RecipientInput): Promise<unknown> {
-  return request(`/recipient/${getProjectId()}`, {
-    method: "POST",
-    body: {
-      name: input.name,
-      phone: input.phone,
-      description: input.description || " ",
-      data: input.metadata ? JSON.stringify(input.metadata) : "{}",
-    },
-  });
+export function createRecipientApi({ request, getProjectId }: ClientContext) {
+  function registerRecipient(input: RecipientInput, call: CallOptions = {}): Promise<unknown> {
+    return request(`/recipient/${getProjectId()}`, {
+      method: "POST",
+      body: {
+        name: input.name,
+        phone: input.phone,
+        description: input.description || " ",
+        data: input.metadata ? JSON.stringify(input.metadata) : "{}",
+      },
+      ...call,
+    });
+  }
+
+  return { registerRecipient };
 }
+
+export const { registerRecipient } = createRecipientApi(defaultContext);
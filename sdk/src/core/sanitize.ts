@@ -0,0 +1,243 @@
+/**
+ * 게시글 HTML 정화 — 공지/FAQ/회원 글 content 를 dangerouslySetInnerHTML 로 그리기 전에 통과시킨다.
+ * 허용 목록 방식: 목록에 있는 태그·속성만 다시 직렬화하고 나머지는 버린다(외부 서비스·DOM 불필요 — SSR/테스트에서도 동작).
+ *  - script/style/iframe 등은 내용까지 제거, 그 밖의 모르는 태그는 껍데기만 벗기고 글자는 남긴다
+ *  - 링크는 http(s)/mailto/tel/상대 경로만, rel="noopener noreferrer" 강제(외부 링크는 새 탭)
+ *  - 이미지는 https(또는 상대 경로)만, imageHosts 로 호스트 제한
+ *  - 닫히지 않은 태그는 끝에서 닫아 바깥 레이아웃을 깨지 않게 한다
+ */
+
+export interface SanitizeOptions {
+  /** 허용할 이미지 호스트(예: ["cdn.example.com"]). 생략 시 https 면 어디든 */
+  imageHosts?: string[];
+  /** 외부(http/https 절대 주소) 링크를 새 탭으로. 기본 true */
+  externalLinksInNewTab?: boolean;
+  /** style 속성 유지(text-align/color 등 일부 속성만). 기본 true */
+  allowStyles?: boolean;
+}
+
+/** 내용까지 버리는 태그 */
+const DROP_WITH_CONTENT = new Set([
+  "script", "style", "iframe", "frame", "frameset", "object", "embed", "applet", "noscript", "noembed",
+  "template", "textarea", "select", "title", "head", "svg", "math", "xmp", "plaintext", "noframes",
+]);
+
+const VOID_TAGS = new Set(["br", "hr", "img", "col", "wbr"]);
+
+const GLOBAL_ATTRS = ["class", "style", "title", "dir"];
+
+/** 허용 태그 → 태그별 추가 허용 속성 */
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [], br: [], hr: [], wbr: [], div: [], span: [],
+  b: [], strong: [], i: [], em: [], u: [], s: [], strike: [], del: [], ins: [], sub: [], sup: [], mark: [], small: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  blockquote: [], pre: [], code: [],
+  ul: [], ol: ["start", "type"], li: [],
+  a: ["href"],
+  img: ["src", "alt", "width", "height"],
+  figure: [], figcaption: [],
+  table: [], caption: [], thead: [], tbody: [], tfoot: [], tr: [], colgroup: [], col: ["span"],
+  th: ["colspan", "rowspan", "scope"], td: ["colspan", "rowspan"],
+};
+
+const STYLE_PROPS = new Set([
+  "text-align", "color", "background-color", "font-weight", "font-style", "text-decoration", "font-size",
+  "line-height", "width", "height", "max-width", "vertical-align",
+]);
+
+const LINK_PROTOCOLS = new Set(["http:", "https:", "mailto:", "tel:"]);
+
+// ── 문자열 ↔ 엔티티 ──
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", colon: ":", tab: "\t", newline: "\n" };
+
+/** 속성값 판정 전에 엔티티를 풀어야 jav&#x61;script: 같은 우회를 잡는다 */
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    }
+    return NAMED_ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+const escapeAttr = (s: string) => s.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** 텍스트는 이미 있는 엔티티(&nbsp; 등)를 살리고 나머지 특수문자만 이스케이프 */
+const escapeText = (s: string) =>
+  s.replace(/&(?!#\d+;|#x[0-9a-f]+;|[a-z][a-z0-9]*;)/gi, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// ── URL ──
+
+/**
+ * 링크/이미지 주소 검사 — 안전하면 정규화한 주소, 아니면 null.
+ * URL_LINK 게시글의 link_url 처럼 HTML 밖에서 쓰는 주소에도 쓴다.
+ */
+export function sanitizeUrl(url: string, kind: "link" | "image" = "link", opts: Pick<SanitizeOptions, "imageHosts"> = {}): string | null {
+  // 제어문자는 브라우저가 무시하므로("java\tscript:") 지우고, 스킴 판정은 공백까지 뺀 값으로(보수적으로)
+  const value = decodeEntities(url).replace(/[\u0000-\u001f\u007f-\u009f]/g, "").trim();
+  if (!value) return null;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(value.replace(/\s/g, ""));
+  if (!scheme) {
+    // 상대 경로 — 프로토콜 상대(//host, 브라우저는 \ 도 / 로 본다)는 호스트 제한을 우회하므로 절대 주소로 취급
+    if (/^[/\\]{2}/.test(value)) return sanitizeUrl(`https://${value.replace(/^[/\\]+/, "")}`, kind, opts);
+    return value;
+  }
+  const protocol = scheme[1].toLowerCase() + ":";
+  if (kind === "link") return LINK_PROTOCOLS.has(protocol) ? value : null;
+  if (protocol !== "https:") return null;
+  if (!opts.imageHosts) return value;
+  try {
+    return opts.imageHosts.includes(new URL(value).hostname) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 로그인 후 복귀 주소 검사 — 같은 출처의 상대 경로("/..." 이되 "//"·"/\" 아님)만 통과, 아니면 "/".
+ * ?returnUrl= 처럼 주소창에서 온 값을 location/navigate 에 넘기기 전에 통과시킨다(오픈 리다이렉트 방지).
+ */
+export function safeReturnUrl(url: string | null | undefined): string {
+  // 제어문자는 브라우저가 지우므로("/\t/evil.com" → "//evil.com") 있으면 거절
+  if (!url || !/^\/(?![/\\])/.test(url) || /[\u0000-\u001f\u007f]/.test(url)) return "/";
+  return url;
+}
+
+const isExternal = (href: string) => /^https?:/i.test(href);
+
+function sanitizeStyle(style: string): string {
+  const out: string[] = [];
+  for (const decl of decodeEntities(style).split(";")) {
+    const at = decl.indexOf(":");
+    if (at < 0) continue;
+    const prop = decl.slice(0, at).trim().toLowerCase();
+    const value = decl.slice(at + 1).trim();
+    // url()/expression()/var() 로 외부 요청·스크립트를 만들 수 없게 값 문자를 좁힌다
+    if (!STYLE_PROPS.has(prop) || !/^[#\w\s.,%()-]+$/.test(value) || /url\s*\(|expression|var\s*\(/i.test(value)) continue;
+    out.push(`${prop}: ${value}`);
+  }
+  return out.join("; ");
+}
+
+// ── 토큰화·재직렬화 ──
+
+const ATTR_RE = /\s*([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/y;
+
+interface Tag {
+  name: string;
+  attrs: [string, string][];
+  end: number;
+}
+
+/** pos 의 "<" 부터 여는 태그를 읽는다. 태그가 아니면 null */
+function readOpenTag(html: string, pos: number): Tag | null {
+  const m = /^<([a-zA-Z][a-zA-Z0-9-]*)/.exec(html.slice(pos, pos + 64));
+  if (!m) return null;
+  const attrs: [string, string][] = [];
+  let i = pos + m[0].length;
+  for (;;) {
+    ATTR_RE.lastIndex = i;
+    const a = ATTR_RE.exec(html);
+    if (!a || a[0].trim() === "") break;
+    attrs.push([a[1].toLowerCase(), a[2] ?? a[3] ?? a[4] ?? ""]);
+    i = ATTR_RE.lastIndex;
+  }
+  const close = /^\s*\/?\s*>/.exec(html.slice(i));
+  if (!close) {
+    const gt = html.indexOf(">", i);
+    if (gt < 0) return null; // 닫히지 않은 태그 — 글자로 취급
+    return { name: m[1].toLowerCase(), attrs, end: gt + 1 };
+  }
+  return { name: m[1].toLowerCase(), attrs, end: i + close[0].length };
+}
+
+function renderAttrs(tag: Tag, opts: SanitizeOptions): string | null {
+  const allowed = ALLOWED_TAGS[tag.name];
+  const out: string[] = [];
+  for (const [name, raw] of tag.attrs) {
+    if (!GLOBAL_ATTRS.includes(name) && !allowed.includes(name)) continue; // on*, srcset 등은 여기서 전부 탈락
+    let value: string | null = raw;
+    if (name === "href") value = sanitizeUrl(raw, "link");
+    else if (name === "src") value = sanitizeUrl(raw, "image", opts);
+    else if (name === "style") value = opts.allowStyles === false ? null : sanitizeStyle(raw) || null;
+    else value = decodeEntities(raw);
+    if (value === null) {
+      if (name === "src") return null; // 허용되지 않은 이미지는 태그째 버린다
+      continue;
+    }
+    out.push(`${name}="${escapeAttr(value)}"`);
+  }
+  if (tag.name === "img" && !tag.attrs.some(([n]) => n === "src")) return null;
+  if (tag.name === "a") {
+    const href = tag.attrs.find(([n]) => n === "href");
+    const safe = href && sanitizeUrl(href[1], "link");
+    if (safe && isExternal(safe) && opts.externalLinksInNewTab !== false) out.push('target="_blank"');
+    if (safe) out.push('rel="noopener noreferrer"');
+  }
+  return out.length ? " " + out.join(" ") : "";
+}
+
+export function sanitizeHtml(html: string | null | undefined, opts: SanitizeOptions = {}): string {
+  if (!html) return "";
+  let out = "";
+  const open: string[] = [];
+  let pos = 0;
+  const text = (s: string) => (out += escapeText(s));
+
+  while (pos < html.length) {
+    const lt = html.indexOf("<", pos);
+    if (lt < 0) {
+      text(html.slice(pos));
+      break;
+    }
+    text(html.slice(pos, lt));
+    pos = lt;
+
+    if (html.startsWith("<!--", pos)) {
+      const end = html.indexOf("-->", pos + 4);
+      pos = end < 0 ? html.length : end + 3; // 주석은 버린다(조건부 주석 트릭 포함)
+      continue;
+    }
+    if (html[pos + 1] === "!" || html[pos + 1] === "?") {
+      const end = html.indexOf(">", pos);
+      pos = end < 0 ? html.length : end + 1; // doctype·CDATA·처리 명령
+      continue;
+    }
+
+    const close = /^<\/([a-zA-Z][a-zA-Z0-9-]*)[^>]*>/.exec(html.slice(pos));
+    if (close) {
+      pos += close[0].length;
+      const name = close[1].toLowerCase();
+      const at = open.lastIndexOf(name);
+      if (at < 0) continue; // 짝 없는 닫는 태그 — 바깥 요소를 닫지 못하게 버린다
+      while (open.length > at) out += `</${open.pop()}>`;
+      continue;
+    }
+
+    const tag = readOpenTag(html, pos);
+    if (!tag) {
+      text("<");
+      pos++;
+      continue;
+    }
+    pos = tag.end;
+
+    if (DROP_WITH_CONTENT.has(tag.name)) {
+      const end = html.toLowerCase().indexOf(`</${tag.name}`, pos);
+      if (end < 0) break; // 닫히지 않았으면 나머지 전부 버린다
+      const gt = html.indexOf(">", end);
+      pos = gt < 0 ? html.length : gt + 1;
+      continue;
+    }
+    if (!ALLOWED_TAGS[tag.name]) continue; // 모르는 태그는 껍데기만 제거(안의 글자는 계속 처리)
+
+    const attrs = renderAttrs(tag, opts);
+    if (attrs === null) continue;
+    out += `<${tag.name}${attrs}>`;
+    if (!VOID_TAGS.has(tag.name)) open.push(tag.name);
+  }
+  while (open.length) out += `</${open.pop()}>`;
+  return out;
+}
@@ -0,0 +1,31 @@
+/** 브라우저 localStorage 접근 — SSR·사파리 프라이빗 모드처럼 쓸 수 없으면 null(호출부는 조용히 포기). */
+export function localStore(): Storage | null {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    return null; // 접근 자체가 SecurityError 인 환경
+  }
+}
+
+/** JSON 읽기 — 없거나 깨졌으면 null */
+export function readJson<T>(key: string): T | null {
+  const raw = localStore()?.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** JSON 쓰기 — 실패(용량 초과 등)는 false */
+export function writeJson(key: string, value: unknown): boolean {
+  const s = localStore();
+  if (!s) return false;
+  try {
+    s.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
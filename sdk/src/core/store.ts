@@ -3,8 +3,10 @@
  * 카드 결제: prepare→(앱이 토스 위젯)→confirm. config.toss_client_key 로 앱이 위젯 호출.
  * 주의: 통신판매중개 특성상 모든 페이지 푸터에 중개업자 고지 필수(스킬 store 표면 규약).
  */
-import { request } from "./http";
-import { getProjectId } from "./config";
+import type { CallOptions } from "./http";
+import type { QueryCallOptions } from "./queryCache";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
 
 export interface StoreConfig {
   store_enabled: boolean;
@@ -19,45 +21,90 @@ export interface Product {
   [key: string]: unknown;
 }
 
-// ── 공개 조회 ──
-export const getStoreConfig = () =>
-  request<StoreConfig>(`/public/store/${getProjectId()}/config`);
-export const listProducts = (params: Record<string, string> = {}) => {
-  const qs = new URLSearchParams(params).toString();
-  return request<{ items: Product[]; [k: string]: unknown }>(
-    `/public/store/${getProjectId()}/products${qs ? `?${qs}` : ""}`
-  );
-};
-export const listCategories = () =>
-  request(`/public/store/${getProjectId()}/categories`);
-export const getProduct = (productId: string) =>
-  request<Product>(`/public/store/${getProjectId()}/products/${productId}`);
-export const getStoreTerms = () =>
-  request(`/public/store/${getProjectId()}/terms`);
-
-// ── 회원: 결제 준비(주문 미생성) → 앱이 토스 위젯 호출 ──
-export const prepareOrder = (productId: string, quantity: number) =>
-  request<{ order_no: string; amount: number; order_name: string }>(`/store/orders/prepare`, {
-    method: "POST",
-    body: { product_id: productId, quantity, terms_agreed: true },
-  });
-
-// ── 회원: 결제 승인 = 주문 생성 ──
-export const confirmOrder = (data: {
-  order_no: string;
-  payment_key: string;
-  amount: number;
-  product_id: string;
-  quantity: number;
-}) => request(`/store/orders/confirm`, { method: "POST", body: data });
-
-// ── 회원: 내 주문 ──
-export const listMyOrders = (params: Record<string, string> = {}) => {
-  const qs = new URLSearchParams(params).toString();
-  return request(`/store/orders/me${qs ? `?${qs}` : ""}`);
-};
-export const getOrder = (orderId: string) => request(`/store/orders/${orderId}`);
-export const confirmPurchase = (orderId: string) =>
-  request(`/store/orders/${orderId}/confirm`, { method: "POST" });
-export const cancelOrder = (orderId: string, reason: string) =>
-  request(`/store/orders/${orderId}/cancel`, { method: "POST", body: { reason } });
+/** 상품 목록 응답 */
+export interface ProductListResult {
+  items: Product[];
+  [key: string]: unknown;
+}
+
+export function createStoreApi({ request, query, invalidate, getProjectId }: ClientContext) {
+  // ── 공개 조회 (config/상품/카테고리는 캐시 — 결제 승인 후 상품(재고) 캐시 무효화) ──
+  const getStoreConfig = (call: QueryCallOptions<StoreConfig> = {}) =>
+    query<StoreConfig>(`/public/store/${getProjectId()}/config`, call);
+  const listProducts = (params: Record<string, string> = {}, call: QueryCallOptions<ProductListResult> = {}) => {
+    const qs = new URLSearchParams(params).toString();
+    return query<ProductListResult>(
+      `/public/store/${getProjectId()}/products${qs ? `?${qs}` : ""}`,
+      call
+    );
+  };
+  const listCategories = (call: QueryCallOptions = {}) =>
+    query(`/public/store/${getProjectId()}/categories`, call);
+  const getProduct = (productId: string, call: QueryCallOptions<Product> = {}) =>
+    query<Product>(`/public/store/${getProjectId()}/products/${productId}`, call);
+  const getStoreTerms = (call: CallOptions = {}) =>
+    request(`/public/store/${getProjectId()}/terms`, call);
+
+  // ── 회원: 결제 준비(주문 미생성) → 앱이 토스 위젯 호출 ──
+  const prepareOrder = (productId: string, quantity: number, call: CallOptions = {}) =>
+    request<{ order_no: string; amount: number; order_name: string }>(`/store/orders/prepare`, {
+      method: "POST",
+      body: { product_id: productId, quantity, terms_agreed: true },
+      ...call,
+    });
+
+  // ── 회원: 결제 승인 = 주문 생성 (재시도는 기본 off — 멱등 보장 시 call.retry.retryWrites 로 opt-in) ──
+  const confirmOrder = (
+    data: {
+      order_no: string;
+      payment_key: string;
+      amount: number;
+      product_id: string;
+      quantity: number;
+    },
+    call: CallOptions = {}
+  ) =>
+    request(`/store/orders/confirm`, { method: "POST", body: data, ...call }).then((order) => {
+      invalidate(`/public/store/${getProjectId()}/products`);
+      return order;
+    });
+
+  // ── 회원: 내 주문 ──
+  const listMyOrders = (params: Record<string, string> = {}, call: CallOptions = {}) => {
+    const qs = new URLSearchParams(params).toString();
+    return request(`/store/orders/me${qs ? `?${qs}` : ""}`, call);
+  };
+  const getOrder = (orderId: string, call: CallOptions = {}) => request(`/store/orders/${orderId}`, call);
+  const confirmPurchase = (orderId: string, call: CallOptions = {}) =>
+    request(`/store/orders/${orderId}/confirm`, { method: "POST", ...call });
+  const cancelOrder = (orderId: string, reason: string, call: CallOptions = {}) =>
+    request(`/store/orders/${orderId}/cancel`, { method: "POST", body: { reason }, ...call });
+
+  return {
+    getStoreConfig,
+    listProducts,
+    listCategories,
+    getProduct,
+    getStoreTerms,
+    prepareOrder,
+    confirmOrder,
+    listMyOrders,
+    getOrder,
+    confirmPurchase,
+    cancelOrder,
+  };
+}
+
+export const {
+  getStoreConfig,
+  listProducts,
+  listCategories,
+  getProduct,
+  getStoreTerms,
+  prepareOrder,
+  confirmOrder,
+  listMyOrders,
+  getOrder,
+  confirmPurchase,
+  cancelOrder,
+} = createStoreApi(defaultContext);
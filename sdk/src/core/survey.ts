@@ -1,6 +1,7 @@
 /** 설문조사 — 공개 목록/상세 + 응답 제출. */
-import { request } from "./http";
-import { getProjectId } from "./config";
+import type { CallOptions } from "./http";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
 
 export interface Survey {
   id: string;
@@ -11,21 +12,32 @@ export interface Survey {
   [key: string]: unknown;
 }
 
-export function listSurveys(params: Record<string, string> = {}): Promise<{ items: Survey[]; [k: string]: unknown }> {
-  const qs = new URLSearchParams(params).toString();
-  return request(`/public/survey/${getProjectId()}/surveys${qs ? `?${qs}` : ""}`);
-}
+export function createSurveyApi({ request, getProjectId }: ClientContext) {
+  function listSurveys(
+    params: Record<string, string> = {},
+    call: CallOptions = {}
+  ): Promise<{ items: Survey[]; [k: string]: unknown }> {
+    const qs = new URLSearchParams(params).toString();
+    return request(`/public/survey/${getProjectId()}/surveys${qs ? `?${qs}` : ""}`, call);
+  }
 
-export function getSurvey(surveyId: string): Promise<Survey> {
-  return request(`/public/survey/${getProjectId()}/surveys/${surveyId}`);
-}
+  function getSurvey(surveyId: string, call: CallOptions = {}): Promise<Survey> {
+    return request(`/public/survey/${getProjectId()}/surveys/${surveyId}`, call);
+  }
 
-export function submitSurveyResponse(
-  surveyId: string,
-  answers: unknown
-): Promise<unknown> {
-  return request(`/public/survey/${getProjectId()}/surveys/${surveyId}/responses`, {
-    method: "POST",
-    body: { answers },
-  });
+  function submitSurveyResponse(
+    surveyId: string,
+    answers: unknown,
+    call: CallOptions = {}
+  ): Promise<unknown> {
+    return request(`/public/survey/${getProjectId()}/surveys/${surveyId}/responses`, {
+      method: "POST",
+      body: { answers },
+      ...call,
+    });
+  }
+
+  return { listSurveys, getSurvey, submitSurveyResponse };
 }
+
+export const { listSurveys, getSurvey, submitSurveyResponse } = createSurveyApi(defaultContext);
@@ -1,9 +1,12 @@
 /** 서버 공통 응답 봉투 */
 export interface Envelope<T> {
-  result: "SUCCESS" | "FAIL";
+  /** /upload/presign 만 boolean(true) 으로 응답한다 */
+  result: "SUCCESS" | "FAIL" | boolean;
   data: T | null;
   message?: string | null;
   errorCode?: string | null;
+  /** VALIDATION_ERROR 의 필드별 사유(common 레퍼런스 "검증 에러 응답") */
+  detail?: unknown;
 }
 
 export interface TokenResponse {
@@ -19,6 +22,8 @@ export interface AccountInfo {
   phone: string | null;
   is_profile_completed: boolean;
   status: string;
+  /** 프로젝트별 추가 회원 정보(자유 형식) */
+  data?: Record<string, unknown>;
   [key: string]: unknown;
 }
 
@@ -0,0 +1,154 @@
+/**
+ * 게시판 첨부 업로드 — presigned URL 2단계(dynamic-board 레퍼런스 12장).
+ * 파일당 ① POST /upload/presign (작은 JSON, 회원) → ② presign_url 로 S3 직접 PUT → file_id 수집.
+ * 큰 바이너리를 API 로 보내지 않으므로 CloudFront 경유 413/403 이 없다.
+ * 반환 files[].id 를 createPost 의 file_ids 로 넘긴다.
+ */
+import { BaasError, abortError } from "./http";
+import type { CallOptions } from "./http";
+import { defaultContext } from "./context";
+import type { ClientContext } from "./context";
+
+export interface BoardFile {
+  id: number;
+  file_name: string;
+  /** 영구 조회용 CDN URL */
+  url: string;
+}
+
+export interface UploadProgress {
+  /** 진행 중인 파일과 files 내 위치 */
+  file: File;
+  index: number;
+  /** 이 파일의 전송 바이트 / 전체 바이트 */
+  loaded: number;
+  total: number;
+  /** 전체 파일 기준 진행률 0~1 */
+  overall: number;
+}
+
+export interface UploadOptions extends Pick<CallOptions, "signal"> {
+  onProgress?: (p: UploadProgress) => void;
+  /** 게시글/목록 응답의 board_settings — allow_attachment 가 false 면 업로드하지 않는다 */
+  settings?: { allow_attachment?: boolean } | null;
+  /** 허용 MIME(예: ["image/*", "application/pdf"]). 생략 시 실행 파일만 차단 */
+  accept?: string[];
+  /** 파일당 최대 크기(byte). 서버 한도(10MB)보다 크게 잡아도 서버가 거절한다 */
+  maxSizeBytes?: number;
+}
+
+/** 서버 presign 제한과 동일 — 보내기 전에 걸러 불필요한 왕복을 없앤다 */
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const BLOCKED_EXTENSIONS = ["exe", "bat", "cmd", "sh", "ps1", "vbs", "js", "jar", "msi", "com", "scr"];
+
+interface PresignResult {
+  original: { presign_url: string; cdn_url: string };
+  file_id: number;
+}
+
+const contentType = (file: File) => file.type || "application/octet-stream";
+
+function matchesMime(type: string, accept: string[]): boolean {
+  return accept.some((a) => (a.endsWith("/*") ? type.startsWith(a.slice(0, -1)) : type === a));
+}
+
+/**
+ * 업로드 전 검증. 실패는 서버 VALIDATION_ERROR 와 같은 모양(status 0, fieldErrors.files)으로
+ * 던져 폼이 서버 검증 에러와 같은 경로로 표시하게 한다.
+ */
+export function validateFiles(files: File[], opts: Omit<UploadOptions, "onProgress" | "signal"> = {}): void {
+  const reasons: { field: string; reason: string }[] = [];
+  if (opts.settings && opts.settings.allow_attachment === false) {
+    reasons.push({ field: "files", reason: "이 게시판은 파일 첨부를 허용하지 않습니다." });
+  }
+  const maxSize = Math.min(opts.maxSizeBytes ?? MAX_UPLOAD_BYTES, MAX_UPLOAD_BYTES);
+  for (const file of files) {
+    const ext = file.name.includes(".") ? file.name.split(".").pop()!.toLowerCase() : "";
+    if (BLOCKED_EXTENSIONS.includes(ext)) {
+      reasons.push({ field: "files", reason: `${file.name}: 실행 파일은 첨부할 수 없습니다.` });
+    } else if (opts.accept?.length && !matchesMime(contentType(file), opts.accept)) {
+      reasons.push({ field: "files", reason: `${file.name}: 허용되지 않는 파일 형식입니다.` });
+    }
+    if (file.size > maxSize) {
+      reasons.push({ field: "files", reason: `${file.name}: 파일당 최대 ${Math.floor(maxSize / 1024 / 1024)}MB 까지 첨부할 수 있습니다.` });
+    }
+  }
+  if (reasons.length) {
+    throw new BaasError(reasons[0].reason, "VALIDATION_ERROR", 0, reasons);
+  }
+}
+
+/** S3 PUT — 업로드 진행률은 XHR 에서만 나온다. XHR 이 없는 런타임은 fetch 로 보내고 완료 시 1회 보고 */
+function putObject(url: string, file: File, onLoaded: (loaded: number) => void, signal?: AbortSignal): Promise<void> {
+  const failed = (status: number) => new BaasError("파일 업로드에 실패했습니다.", null, status);
+  if (typeof XMLHttpRequest === "undefined") {
+    return fetch(url, { method: "PUT", body: file, headers: { "Content-Type": contentType(file) }, signal }).then(
+      (res) => {
+        if (!res.ok) throw failed(res.status);
+        onLoaded(file.size);
+      },
+      (e) => {
+        throw signal?.aborted ? abortError() : e;
+      }
+    );
+  }
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", contentType(file));
+    xhr.upload.onprogress = (e) => onLoaded(e.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onLoaded(file.size);
+        resolve();
+      } else reject(failed(xhr.status));
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(new TypeError("Failed to fetch")); // fetch 네트워크 오류와 같은 모양 — getErrorMessage 가 network 로 분류
+    };
+    xhr.onabort = () => reject(abortError());
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(file);
+  });
+}
+
+export function createUploadApi({ request, getProjectId }: ClientContext) {
+  async function uploadFiles(files: File[], opts: UploadOptions = {}): Promise<{ files: BoardFile[] }> {
+    validateFiles(files, opts);
+    const totalBytes = files.reduce((sum, f) => sum + f.size, 0) || 1;
+    let doneBytes = 0;
+    const uploaded: BoardFile[] = [];
+
+    for (const [index, file] of files.entries()) {
+      const { original, file_id } = await request<PresignResult>(`/upload/presign?project_id=${getProjectId()}`, {
+        method: "POST",
+        body: {
+          category: "board_attachment",
+          filename: file.name,
+          content_type: contentType(file),
+          size: file.size,
+          with_compressed: false,
+        },
+        signal: opts.signal,
+      });
+      await putObject(
+        original.presign_url,
+        file,
+        (loaded) =>
+          opts.onProgress?.({ file, index, loaded, total: file.size, overall: (doneBytes + loaded) / totalBytes }),
+        opts.signal
+      );
+      doneBytes += file.size;
+      uploaded.push({ id: file_id, file_name: file.name, url: original.cdn_url });
+    }
+    return { files: uploaded };
+  }
+
+  return { uploadFiles };
+}
+
+export const { uploadFiles } = createUploadApi(defaultContext);
@@ -0,0 +1,109 @@
+/**
+ * 회원 입력 사전 검증 — 서버 규칙(references/account.md)과 같은 기준으로 요청 전에 거른다.
+ * validate* 는 던지지 않고 FieldErrors(비었으면 통과)를 돌려준다 — 폼 onBlur 검사에도 그대로 쓴다.
+ * 요청 경로(useSignup)는 validationError 로 서버 422 와 같은 모양(VALIDATION_ERROR)을 던진다.
+ */
+import { BaasError } from "./http";
+import type { FieldErrors } from "./http";
+
+/** 서버 비밀번호 규칙(8자 이상) */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** 서버 이름 규칙(32자 이하) */
+export const MAX_NAME_LENGTH = 32;
+
+/** 가입 전화번호 형식 — 휴대폰 010-XXXX-XXXX */
+export const PHONE_PATTERN = /^010-\d{4}-\d{4}$/;
+
+export interface SignupInput {
+  user_id: string;
+  user_pw: string;
+  /** 비밀번호 확인 칸 — 주면 user_pw 와 같은지 본다 */
+  user_pw_confirm?: string;
+  name: string;
+  phone: string;
+  terms_agreed?: boolean;
+  privacy_agreed?: boolean;
+}
+
+export interface SignupRules {
+  /** 약관·개인정보 동의를 필수로(동의 체크박스가 있는 폼). 기본 false — 이때도 명시적 false 는 거절 */
+  requireAgreements?: boolean;
+  /** user_id 를 이메일 형식으로 강제 */
+  emailId?: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * 숫자만 남긴다. 자르지 않는다(길이 검사는 isValidPhone).
+ * 국내 번호는 0 으로 시작하므로 앞의 82 는 국가번호 — "+82 10-1234-5678"·"+82 010-1234-5678" → "01012345678"
+ */
+export function normalizePhone(input: string): string {
+  const digits = input.replace(/\D/g, "");
+  if (!digits.startsWith("82")) return digits;
+  const rest = digits.slice(2);
+  return rest.startsWith("0") ? rest : "0" + rest;
+}
+
+/**
+ * 하이픈 표기. 입력 중인 값도 자릿수만큼 끊어준다(onChange 에 그대로) — "0101234" → "010-1234".
+ * 화면 표기용이라 11자리에서 자른다 — 검증은 자르기 전 숫자로(isValidPhone).
+ */
+export function formatPhone(input: string): string {
+  const d = normalizePhone(input).slice(0, 11);
+  if (d.length < 4) return d;
+  if (d.length < 8) return `${d.slice(0, 3)}-${d.slice(3)}`;
+  if (d.length === 10) return `${d.slice(0, 3)}-${d.slice(3, 6)}-${d.slice(6)}`;
+  return `${d.slice(0, 3)}-${d.slice(3, 7)}-${d.slice(7)}`;
+}
+
+/** 가입에 쓸 수 있는 휴대폰 번호인지(하이픈 유무 무관). 정확히 11자리 — 넘치는 입력은 잘라서 통과시키지 않는다 */
+export function isValidPhone(input: string): boolean {
+  const digits = normalizePhone(input);
+  return digits.length === 11 && PHONE_PATTERN.test(formatPhone(digits));
+}
+
+/** 비밀번호 규칙 위반 사유. 통과하면 null */
+export function validatePassword(password: string): string | null {
+  if (!password) return "비밀번호를 입력해주세요.";
+  if (password.length < MIN_PASSWORD_LENGTH) return `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.`;
+  return null;
+}
+
+/** 회원가입 폼 검증 — 필드별 첫 위반 사유. 서버 필드명(user_id·user_pw·name·phone·terms_agreed…) 그대로 */
+export function validateSignup(input: SignupInput, rules: SignupRules = {}): FieldErrors {
+  const errors: FieldErrors = {};
+  const fail = (field: string, reason: string) => (errors[field] = [reason]);
+
+  const userId = input.user_id?.trim() ?? "";
+  if (!userId) fail("user_id", "아이디를 입력해주세요.");
+  else if (/\s/.test(userId)) fail("user_id", "아이디에는 공백을 쓸 수 없습니다.");
+  else if ((rules.emailId || userId.includes("@")) && !EMAIL_PATTERN.test(userId)) {
+    fail("user_id", "이메일 형식이 올바르지 않습니다.");
+  }
+
+  const pw = validatePassword(input.user_pw ?? "");
+  if (pw) fail("user_pw", pw);
+  else if (input.user_pw_confirm !== undefined && input.user_pw_confirm !== input.user_pw) {
+    fail("user_pw_confirm", "비밀번호가 일치하지 않습니다.");
+  }
+
+  const name = input.name?.trim() ?? "";
+  if (!name) fail("name", "이름을 입력해주세요.");
+  else if (name.length > MAX_NAME_LENGTH) fail("name", `이름은 ${MAX_NAME_LENGTH}자 이하로 입력해주세요.`);
+
+  if (!input.phone?.trim()) fail("phone", "휴대폰 번호를 입력해주세요.");
+  else if (!isValidPhone(input.phone)) fail("phone", "휴대폰 번호는 010-XXXX-XXXX 형식이어야 합니다.");
+
+  const agreed = (v: boolean | undefined) => v === true || (v === undefined && !rules.requireAgreements);
+  if (!agreed(input.terms_agreed)) fail("terms_agreed", "이용약관에 동의해주세요.");
+  if (!agreed(input.privacy_agreed)) fail("privacy_agreed", "개인정보 수집·이용에 동의해주세요.");
+  return errors;
+}
+
+/** FieldErrors → 던질 BaasError(VALIDATION_ERROR). 통과(빈 객체)면 null */
+export function validationError(errors: FieldErrors): BaasError | null {
+  const detail = Object.entries(errors).flatMap(([field, reasons]) => reasons.map((reason) => ({ field, reason })));
+  return detail.length ? new BaasError(detail[0].reason, "VALIDATION_ERROR", 0, detail) : null;
+}
@@ -1,10 +1,14 @@
 /**
- * AuthProvider / useAuth / RequireAuth — 인증 상태 전역 1회 조회 패턴.
+ * AuthProvider / useAuth / 가드(useAuthGuard·RequireAuth·RequireProfile) — 인증 상태 전역 1회 조회 패턴(탭 간 동기화 포함).
  * host React 로 createElement(JSX 미사용) 하여 앱과 동일 인스턴스에서 동작.
  */
 import type { ReactNode } from "react";
 import { getReact } from "./host";
-import { checkAuth, clearAuthCache } from "../core/auth";
+import { checkAuth, clearAuthCache, startAuthSync } from "../core/auth";
+import { authDenyReason } from "../core/authGuard";
+import type { AuthDenyReason, AuthGuardRules } from "../core/authGuard";
+import { on } from "../core/events";
+import type { BaasEventMap } from "../core/events";
 import type { AccountInfo } from "../core/types";
 
 export interface AuthContextValue {
@@ -12,6 +16,8 @@ export interface AuthContextValue {
   user: AccountInfo | null;
   loading: boolean;
   error: Error | null;
+  /** 사용 중 세션이 만료되어 로그아웃 상태로 전환됨(재로그인 안내용). refetch/clear 시 해제 */
+  sessionExpired: boolean;
   refetch: () => Promise<void>;
   clear: () => void;
 }
@@ -27,22 +33,39 @@ function ctx() {
   return _ctx;
 }
 
-export function AuthProvider(props: { children?: ReactNode }): any {
+/** 세션 만료 시 로그인 화면으로 보낼 때 원래 위치를 담는 쿼리 파라미터 */
+export const RETURN_URL_PARAM = "returnUrl";
+
+/** path 로 이동하며 현재 위치를 ?returnUrl= 로 붙인다(로그인·프로필 완성 후 복귀용) */
+function assignWithReturnUrl(path: string) {
+  const here = window.location.pathname + window.location.search + window.location.hash;
+  const sep = path.includes("?") ? "&" : "?";
+  window.location.assign(`${path}${sep}${RETURN_URL_PARAM}=${encodeURIComponent(here)}`);
+}
+
+export function AuthProvider(props: {
+  children?: ReactNode;
+  /** 세션 만료 시 이동할 로그인 경로. 현재 위치가 ?returnUrl= 로 붙는다(미지정 시 이동 없음) */
+  loginPath?: string;
+  /** 세션 만료 콜백 — 라우터 navigate 등 앱 방식으로 처리할 때(지정 시 loginPath 이동보다 우선) */
+  onSessionExpired?: (info: BaasEventMap["session-expired"]) => void;
+}): any {
   const React = getReact();
   const [state, setState] = React.useState<{
     isLoggedIn: boolean;
     user: AccountInfo | null;
     loading: boolean;
     error: Error | null;
-  }>({ isLoggedIn: false, user: null, loading: true, error: null });
+    sessionExpired: boolean;
+  }>({ isLoggedIn: false, user: null, loading: true, error: null, sessionExpired: false });
 
   const load = React.useCallback(async () => {
     setState((s) => ({ ...s, loading: true, error: null }));
     try {
       const { isLoggedIn, user } = await checkAuth({ force: true });
-      setState({ isLoggedIn, user, loading: false, error: null });
+      setState({ isLoggedIn, user, loading: false, error: null, sessionExpired: false });
     } catch (e) {
-      setState({ isLoggedIn: false, user: null, loading: false, error: e as Error });
+      setState({ isLoggedIn: false, user: null, loading: false, error: e as Error, sessionExpired: false });
     }
   }, []);
 
@@ -50,15 +73,50 @@ export function AuthProvider(props: { children?: ReactNode }): any {
     load();
   }, [load]);
 
+  // 최신 props/로그인 여부를 ref 로 — 구독은 마운트 시 1회만
+  const propsRef = React.useRef(props);
+  propsRef.current = props;
+  const loggedInRef = React.useRef(state.isLoggedIn);
+  loggedInRef.current = state.isLoggedIn;
+
+  React.useEffect(
+    () =>
+      on("session-expired", (info) => {
+        // 원래 비로그인이었다면 만료가 아니라 단순 로그인 필요 — 화면 이동은 호출부 에러 처리에 맡긴다
+        if (!loggedInRef.current) return;
+        loggedInRef.current = false; // 동시에 실패한 요청들이 리다이렉트를 중복 실행하지 않게
+        setState({ isLoggedIn: false, user: null, loading: false, error: null, sessionExpired: true });
+        const { onSessionExpired, loginPath } = propsRef.current;
+        if (onSessionExpired) onSessionExpired(info);
+        else if (loginPath && typeof window !== "undefined") assignWithReturnUrl(loginPath);
+      }),
+    []
+  );
+
+  // 다른 탭의 로그인 → 재조회, 로그아웃/세션 만료 → 비로그인 전환(이동은 하지 않는다 — 보고 있는 탭만 리다이렉트)
+  React.useEffect(() => {
+    startAuthSync();
+    return on("auth-sync", ({ type }) => {
+      if (type === "login") {
+        load();
+        return;
+      }
+      const expired = type === "session-expired" && loggedInRef.current;
+      loggedInRef.current = false;
+      setState({ isLoggedIn: false, user: null, loading: false, error: null, sessionExpired: expired });
+    });
+  }, [load]);
+
   const value: AuthContextValue = {
     isLoggedIn: state.isLoggedIn,
     user: state.user,
     loading: state.loading,
     error: state.error,
+    sessionExpired: state.sessionExpired,
     refetch: load,
     clear: () => {
       clearAuthCache();
-      setState({ isLoggedIn: false, user: null, loading: false, error: null });
+      setState({ isLoggedIn: false, user: null, loading: false, error: null, sessionExpired: false });
     },
   };
 
@@ -75,17 +133,59 @@ export function useAuth(): AuthContextValue {
 }
 
 /**
- * 로그인 필수 화면 가드. 비로그인 시 fallback(기본 null) 렌더.
- * loading 중엔 loadingFallback(기본 null).
+ * 현재 사용자가 화면 조건을 통과하는지. 버튼 비활성화·안내 문구처럼 렌더를 직접 고를 때 쓴다.
+ * loading 중엔 reason 이 null 이고 allowed 는 false — 판정 전에 막거나 보내지 않는다.
  */
-export function RequireAuth(props: {
+export function useAuthGuard(rules: AuthGuardRules = {}) {
+  const { user, loading } = useAuth();
+  const reason = loading ? null : authDenyReason(user, rules);
+  return { allowed: !loading && !reason, loading, reason, user };
+}
+
+export interface RequireAuthProps extends AuthGuardRules {
   children?: ReactNode;
-  fallback?: ReactNode;
+  /** 거절 시 렌더(기본 null). 함수면 사유를 받는다 — 정지 계정 안내 등 */
+  fallback?: ReactNode | ((reason: AuthDenyReason) => ReactNode);
   loadingFallback?: ReactNode;
-}): any {
+  /** 거절 시 이동할 경로(현재 위치가 ?returnUrl= 로 붙는다). 사유별로 나눌 수 있다 */
+  redirectTo?: string | Partial<Record<AuthDenyReason, string>>;
+  /** 거절 콜백 — 라우터 navigate 등 앱 방식으로 처리할 때(지정 시 redirectTo 이동보다 우선) */
+  onDenied?: (reason: AuthDenyReason) => void;
+}
+
+/**
+ * 화면 가드. 기본은 로그인만 본다. blockedStatuses·requireProfile·when 으로 조건을 더한다.
+ * 거절되면 onDenied/redirectTo 를 1번 실행하고 fallback 을 렌더. loading 중엔 loadingFallback(기본 null).
+ */
+export function RequireAuth(props: RequireAuthProps): any {
   const React = getReact();
-  const { isLoggedIn, loading } = useAuth();
+  const { loading, reason } = useAuthGuard(props);
+  const propsRef = React.useRef(props);
+  propsRef.current = props;
+
+  React.useEffect(() => {
+    if (!reason) return;
+    const { onDenied, redirectTo } = propsRef.current;
+    const target = typeof redirectTo === "string" ? redirectTo : redirectTo?.[reason];
+    if (onDenied) onDenied(reason);
+    else if (target && typeof window !== "undefined") assignWithReturnUrl(target);
+  }, [reason]);
+
   if (loading) return (props.loadingFallback ?? null) as any;
-  if (!isLoggedIn) return (props.fallback ?? null) as any;
+  if (reason) return (typeof props.fallback === "function" ? props.fallback(reason) : props.fallback ?? null) as any;
   return React.createElement(React.Fragment, null, props.children);
 }
+
+/**
+ * 프로필 완성 필수 화면(결제 등) — RequireAuth + requireProfile.
+ * redirectTo 문자열은 프로필 완성 화면으로만 쓴다(비로그인까지 그리로 보내지 않게) — 완성 후 returnUrl 로 복귀.
+ */
+export function RequireProfile(props: RequireAuthProps): any {
+  const React = getReact();
+  const { redirectTo } = props;
+  return React.createElement(RequireAuth, {
+    ...props,
+    requireProfile: true,
+    redirectTo: typeof redirectTo === "string" ? { "profile-incomplete": redirectTo } : redirectTo,
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * <PostContent html={post.content} /> — 게시글 본문을 sanitizeHtml 을 거쳐 그린다.
+ * 앱이 dangerouslySetInnerHTML 을 직접 쓰지 않게 하는 단일 진입점. host React 로 createElement(JSX 미사용).
+ */
+import type { CSSProperties } from "react";
+import { getReact } from "./host";
+import { sanitizeHtml } from "../core/sanitize";
+import type { SanitizeOptions } from "../core/sanitize";
+
+export function PostContent(
+  props: SanitizeOptions & {
+    html: string | null | undefined;
+    /** 감싸는 요소(기본 "div") */
+    as?: string;
+    className?: string;
+    style?: CSSProperties;
+  }
+): any {
+  const React = getReact();
+  const { html, as = "div", className, style, imageHosts, externalLinksInNewTab, allowStyles } = props;
+  const __html = React.useMemo(
+    () => sanitizeHtml(html, { imageHosts, externalLinksInNewTab, allowStyles }),
+    [html, imageHosts?.join(","), externalLinksInNewTab, allowStyles]
+  );
+  return React.createElement(as, { className, style, dangerouslySetInnerHTML: { __html } });
+}
@@ -3,8 +3,17 @@
  * 상태(loading/error) + 동작만 제공. 성공 후 AuthProvider 갱신은 useAuth().refetch()/clear() 로.
  */
 import { getReact } from "./host";
-import { login as apiLogin, signup as apiSignup, logout as apiLogout } from "../core/auth";
+import {
+  login as apiLogin,
+  signup as apiSignup,
+  logout as apiLogout,
+} from "../core/auth";
+import { fieldErrorsOf } from "../core/http";
+import { validateSignup, validationError, formatPhone } from "../core/validation";
+import type { SignupRules } from "../core/validation";
+import type { FieldErrors } from "../core/http";
 import { useAuth } from "./AuthProvider";
+import { useAsync } from "./useAsync";
 import type { AccountInfo, SignupOptions } from "../core/types";
 
 interface ActionState {
@@ -36,9 +45,20 @@ export function useLogin() {
   return { login, loading: state.loading, error: state.error };
 }
 
-export function useSignup() {
+/**
+ * 회원가입. 요청 전에 validateSignup 으로 거르고, 걸리면 네트워크 없이 fieldErrors 로 돌려준다.
+ * 검사·전화번호 표기 변환은 이 훅만 한다 — core signup 은 받은 값을 그대로 보낸다.
+ * 동의 체크박스가 있는 폼은 useSignup({ requireAgreements: true }) + options 에 terms_agreed/privacy_agreed.
+ */
+export function useSignup(rules: SignupRules = {}) {
   const React = getReact();
-  const [state, setState] = React.useState<ActionState>({ loading: false, error: null });
+  const rulesRef = React.useRef(rules);
+  rulesRef.current = rules;
+  const [state, setState] = React.useState<ActionState & { fieldErrors: FieldErrors }>({
+    loading: false,
+    error: null,
+    fieldErrors: {},
+  });
 
   const signup = React.useCallback(
     async (
@@ -48,20 +68,28 @@ export function useSignup() {
       phone: string,
       options: SignupOptions = {}
     ): Promise<AccountInfo | null> => {
-      setState({ loading: true, error: null });
+      const errors = validateSignup({ user_id: userId, user_pw: userPw, name, phone, ...options }, rulesRef.current);
+      const invalid = validationError(errors);
+      if (invalid) {
+        setState({ loading: false, error: invalid, fieldErrors: errors });
+        return null;
+      }
+      setState({ loading: true, error: null, fieldErrors: {} });
+      // 확인 칸은 검증에만 쓰고 보내지 않는다. 전화번호는 "01012345678"·"+82 10…" 입력도 010-XXXX-XXXX 로
+      const { user_pw_confirm: _confirm, ...rest } = options;
       try {
-        const account = await apiSignup(userId, userPw, name, phone, options);
-        setState({ loading: false, error: null });
+        const account = await apiSignup(userId.trim(), userPw, name.trim(), formatPhone(phone), rest);
+        setState({ loading: false, error: null, fieldErrors: {} });
         return account;
       } catch (e) {
-        setState({ loading: false, error: e as Error });
+        setState({ loading: false, error: e as Error, fieldErrors: fieldErrorsOf(e) });
         return null;
       }
     },
     []
   );
 
-  return { signup, loading: state.loading, error: state.error };
+  return { signup, loading: state.loading, error: state.error, fieldErrors: state.fieldErrors };
 }
 
 export function useLogout() {
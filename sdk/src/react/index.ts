@@ -3,26 +3,47 @@
  * core 표면 + react 표면을 한 객체로 합쳐 제공(앱은 <script> 한 줄로 전부 사용).
  */
 import * as core from "../core/index";
-import { AuthProvider, useAuth, RequireAuth } from "./AuthProvider";
+import { AuthProvider, useAuth, RequireAuth, RequireProfile, useAuthGuard } from "./AuthProvider";
 import { useLogin, useSignup, useLogout } from "./hooks";
-import { useBoard } from "./useBoard";
+import { useBoard, useFileUpload } from "./useBoard";
 import {
   useRecipient,
   useNotice,
   useFaq,
-  useComments,
   useSurvey,
   useReservation,
   useStore,
 } from "./moreHooks";
+import { useComments } from "./useComments";
+import {
+  useBoardPosts,
+  useBoardSettings,
+  usePost,
+  useNoticePosts,
+  useFaqPosts,
+  useProducts,
+  useMyBookings,
+  useMyOrders,
+} from "./queryHooks";
+import { usePaginatedPosts, useInfinitePosts } from "./usePagination";
+import { usePostDraft } from "./usePostDraft";
+import { PostContent } from "./PostContent";
+import { useUnreadNotices } from "./useUnreadNotices";
 
 export const BaasSDK = {
   version: core.SDK_VERSION,
   // core
   init: core.init,
+  createClient: core.createClient,
   getProjectId: core.getProjectId,
   request: core.request,
+  use: core.use,
+  on: core.on,
+  invalidateQueries: core.invalidateQueries,
   BaasError: core.BaasError,
+  isBaasError: core.isBaasError,
+  getErrorMessage: core.getErrorMessage,
+  setErrorMessages: core.setErrorMessages,
   login: core.login,
   signup: core.signup,
   logout: core.logout,
@@ -30,21 +51,53 @@ export const BaasSDK = {
   checkAuth: core.checkAuth,
   clearAuthCache: core.clearAuthCache,
   changePassword: core.changePassword,
+  validateSignup: core.validateSignup,
+  validatePassword: core.validatePassword,
+  normalizePhone: core.normalizePhone,
+  formatPhone: core.formatPhone,
+  isValidPhone: core.isValidPhone,
   // board (dynamic)
   listPosts: core.listPosts,
   getPost: core.getPost,
+  getBoardSettings: core.getBoardSettings,
+  isReviewPost: core.isReviewPost,
+  isLinkPost: core.isLinkPost,
+  validatePostInput: core.validatePostInput,
+  categoryChips: core.categoryChips,
+  isChipActive: core.isChipActive,
   createPost: core.createPost,
   updatePost: core.updatePost,
   deletePost: core.deletePost,
+  togglePostHidden: core.togglePostHidden,
+  reportPost: core.reportPost,
+  REPORT_REASON_LABELS: core.REPORT_REASON_LABELS,
   // notice/faq/comments
   listNoticePosts: core.listNoticePosts,
   getNoticePost: core.getNoticePost,
   listFaqPosts: core.listFaqPosts,
   getFaqPost: core.getFaqPost,
+  isNoticeUnread: core.isNoticeUnread,
+  unreadNoticeCount: core.unreadNoticeCount,
+  markNoticeRead: core.markNoticeRead,
+  markAllNoticesRead: core.markAllNoticesRead,
   listComments: core.listComments,
+  listCommentThreads: core.listCommentThreads,
   createComment: core.createComment,
   updateComment: core.updateComment,
   deleteComment: core.deleteComment,
+  toggleCommentHidden: core.toggleCommentHidden,
+  reportComment: core.reportComment,
+  buildCommentTree: core.buildCommentTree,
+  countComments: core.countComments,
+  // 본문 HTML 정화 — 그릴 땐 <PostContent>
+  sanitizeHtml: core.sanitizeHtml,
+  sanitizeUrl: core.sanitizeUrl,
+  safeReturnUrl: core.safeReturnUrl,
+  // 페이지 계산(번호/무한 스크롤)
+  fetchPage: core.fetchPage,
+  createInfiniteList: core.createInfiniteList,
+  totalOf: core.totalOf,
+  pageCountOf: core.pageCountOf,
   // recipient / survey / reservation / store
   registerRecipient: core.registerRecipient,
   listSurveys: core.listSurveys,
@@ -61,6 +114,12 @@ export const BaasSDK = {
   getBooking: core.getBooking,
   updateBooking: core.updateBooking,
   cancelBooking: core.cancelBooking,
+  uploadFiles: core.uploadFiles,
+  saveDraft: core.saveDraft,
+  loadDraft: core.loadDraft,
+  clearDraft: core.clearDraft,
+  listDrafts: core.listDrafts,
+  validateFiles: core.validateFiles,
   getStoreConfig: core.getStoreConfig,
   listProducts: core.listProducts,
   listCategories: core.listCategories,
@@ -76,21 +135,45 @@ export const BaasSDK = {
   AuthProvider,
   useAuth,
   RequireAuth,
+  RequireProfile,
+  useAuthGuard,
   useLogin,
   useSignup,
   useLogout,
   useBoard,
+  useFileUpload,
+  usePostDraft,
+  PostContent,
   useRecipient,
   useNotice,
+  useUnreadNotices,
   useFaq,
   useComments,
   useSurvey,
   useReservation,
   useStore,
+  // 선언형 조회 훅(자동 조회)
+  useBoardPosts,
+  useBoardSettings,
+  usePost,
+  useNoticePosts,
+  useFaqPosts,
+  useProducts,
+  useMyBookings,
+  useMyOrders,
+  usePaginatedPosts,
+  useInfinitePosts,
 };
 
 export {
-  AuthProvider, useAuth, RequireAuth, useLogin, useSignup, useLogout, useBoard,
-  useRecipient, useNotice, useFaq, useComments, useSurvey, useReservation, useStore,
+  AuthProvider, useAuth, RequireAuth, RequireProfile, useAuthGuard, useLogin, useSignup, useLogout,
+  useBoard, useFileUpload, usePostDraft, PostContent,
+  useRecipient, useNotice, useUnreadNotices, useFaq, useComments, useSurvey, useReservation, useStore,
+  useBoardPosts, useBoardSettings, usePost, useNoticePosts, useFaqPosts, useProducts, useMyBookings, useMyOrders,
+  usePaginatedPosts, useInfinitePosts,
 };
+export type { QueryState } from "./queryHooks";
+export type { CommentNode, CommentNodeThread } from "./useComments";
+export type { AuthContextValue, RequireAuthProps } from "./AuthProvider";
+export type { PostSource, PageHookOptions } from "./usePagination";
 export * from "../core/index";
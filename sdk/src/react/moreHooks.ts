@@ -1,145 +1,112 @@
 /**
- * 나머지 기능 훅 — recipient/notice/faq/comments/survey/reservation/store.
- * 모두 host React 사용. 공통 { loading, error } + 데이터 상태 패턴.
+ * 나머지 기능 훅 — recipient/notice/faq/survey/reservation/store. (댓글은 useComments.ts)
+ * 모두 host React 사용. 공통 { loading, error, actions } + 데이터 상태 패턴(useAsync).
  */
 import { getReact } from "./host";
+import { useAsync } from "./useAsync";
 import * as core from "../core/index";
 
-function useAsync() {
-  const React = getReact();
-  const [loading, setLoading] = React.useState(false);
-  const [error, setError] = React.useState<Error | null>(null);
-  async function run<T>(fn: () => Promise<T>): Promise<T | null> {
-    setLoading(true);
-    setError(null);
-    try {
-      return await fn();
-    } catch (e) {
-      setError(e as Error);
-      return null;
-    } finally {
-      setLoading(false);
-    }
-  }
-  return { loading, error, run };
-}
-
 export function useRecipient() {
   const React = getReact();
-  const { loading, error, run } = useAsync();
+  const { loading, error, actions, run } = useAsync();
   const register = React.useCallback(
-    (input: core.RecipientInput) => run(() => core.registerRecipient(input)),
+    (input: core.RecipientInput) => run("register", () => core.registerRecipient(input)),
     []
   );
-  return { register, loading, error };
+  return { register, loading, error, actions };
 }
 
 export function useNotice() {
   const React = getReact();
-  const { loading, error, run } = useAsync();
+  const { loading, error, actions, run } = useAsync();
   const [posts, setPosts] = React.useState<core.PostListResult | null>(null);
   const [post, setPost] = React.useState<core.BoardPost | null>(null);
   const fetchPosts = React.useCallback(
-    (o: core.PostListOptions = {}) => run(async () => { const d = await core.listNoticePosts(o); setPosts(d); return d; }),
+    (o: core.PostListOptions = {}) =>
+      run("fetchPosts", (signal, current) => core.listNoticePosts(o, { signal, cache: { onUpdate: (d) => current() && setPosts(d) } }), { read: true, apply: setPosts }),
     []
   );
   const fetchPost = React.useCallback(
-    (id: string) => run(async () => { const d = await core.getNoticePost(id); setPost(d); return d; }),
+    (id: string) => run("fetchPost", (signal) => core.getNoticePost(id, { signal }), { read: true, apply: setPost }),
     []
   );
-  return { posts, post, loading, error, fetchPosts, fetchPost };
+  return { posts, post, loading, error, actions, fetchPosts, fetchPost };
 }
 
 export function useFaq() {
   const React = getReact();
-  const { loading, error, run } = useAsync();
+  const { loading, error, actions, run } = useAsync();
   const [posts, setPosts] = React.useState<core.PostListResult | null>(null);
   const [post, setPost] = React.useState<core.BoardPost | null>(null);
   const fetchPosts = React.useCallback(
-    (o: core.PostListOptions = {}) => run(async () => { const d = await core.listFaqPosts(o); setPosts(d); return d; }),
+    (o: core.PostListOptions = {}) =>
+      run("fetchPosts", (signal, current) => core.listFaqPosts(o, { signal, cache: { onUpdate: (d) => current() && setPosts(d) } }), { read: true, apply: setPosts }),
     []
   );
   const fetchPost = React.useCallback(
-    (id: string) => run(async () => { const d = await core.getFaqPost(id); setPost(d); return d; }),
-    []
-  );
-  return { posts, post, loading, error, fetchPosts, fetchPost };
-}
-
-export function useComments() {
-  const React = getReact();
-  const { loading, error, run } = useAsync();
-  const [comments, setComments] = React.useState<core.Comment[] | null>(null);
-  const fetchComments = React.useCallback(
-    (postId: string, sort = "latest") => run(async () => { const d = await core.listComments(postId, sort); setComments(d); return d; }),
+    (id: string) => run("fetchPost", (signal) => core.getFaqPost(id, { signal }), { read: true, apply: setPost }),
     []
   );
-  const addComment = React.useCallback(
-    (postId: string, content: string) => run(() => core.createComment(postId, { content })),
-    []
-  );
-  const editComment = React.useCallback(
-    (postId: string, commentId: string, content: string) => run(() => core.updateComment(postId, commentId, { content })),
-    []
-  );
-  const removeComment = React.useCallback(
-    (postId: string, commentId: string) => run(() => core.deleteComment(postId, commentId)),
-    []
-  );
-  return { comments, loading, error, fetchComments, addComment, editComment, removeComment };
+  return { posts, post, loading, error, actions, fetchPosts, fetchPost };
 }
 
 export function useSurvey() {
   const React = getReact();
-  const { loading, error, run } = useAsync();
+  const { loading, error, actions, run } = useAsync();
   const [surveys, setSurveys] = React.useState<core.Survey[] | null>(null);
   const [survey, setSurvey] = React.useState<core.Survey | null>(null);
   const fetchSurveys = React.useCallback(
-    (params: Record<string, string> = {}) => run(async () => { const d = await core.listSurveys(params); setSurveys((d as any).items ?? []); return d; }),
+    (params: Record<string, string> = {}) =>
+      run("fetchSurveys", (signal) => core.listSurveys(params, { signal }), { read: true, apply: (d) => setSurveys((d as any).items ?? []) }),
     []
   );
   const fetchSurvey = React.useCallback(
-    (id: string) => run(async () => { const d = await core.getSurvey(id); setSurvey(d); return d; }),
+    (id: string) => run("fetchSurvey", (signal) => core.getSurvey(id, { signal }), { read: true, apply: setSurvey }),
     []
   );
   const submitResponse = React.useCallback(
-    (id: string, answers: unknown) => run(() => core.submitSurveyResponse(id, answers)),
+    (id: string, answers: unknown) => run("submitResponse", () => core.submitSurveyResponse(id, answers)),
     []
   );
-  return { surveys, survey, loading, error, fetchSurveys, fetchSurvey, submitResponse };
+  return { surveys, survey, loading, error, actions, fetchSurveys, fetchSurvey, submitResponse };
 }
 
 export function useReservation() {
   const React = getReact();
-  const { loading, error, run } = useAsync();
+  const { loading, error, fieldErrors, actions, run } = useAsync();
   const [targets, setTargets] = React.useState<core.ReservationTarget[] | null>(null);
   const fetchTargets = React.useCallback(
-    () => run(async () => { const d = await core.listTargets(); setTargets(d); return d; }),
+    () => run("fetchTargets", (signal) => core.listTargets({ signal }), { read: true, apply: setTargets }),
     []
   );
-  const fetchTarget = React.useCallback((id: string) => run(() => core.getTarget(id)), []);
-  const fetchSlots = React.useCallback((id: string, p: Record<string, string>) => run(() => core.getAvailableSlots(id, p)), []);
-  const fetchSlotRange = React.useCallback((id: string, p: Record<string, string>) => run(() => core.getSlotRange(id, p)), []);
-  const book = React.useCallback((id: string, data: any) => run(() => core.createBooking(id, data)), []);
-  const prepare = React.useCallback((id: string, data: any) => run(() => core.prepareBooking(id, data)), []);
-  const confirm = React.useCallback((id: string, payload: any) => run(() => core.confirmBooking(id, payload)), []);
-  const myBookings = React.useCallback((p: Record<string, string> = {}) => run(() => core.listMyBookings(p)), []);
-  const cancel = React.useCallback((rid: string) => run(() => core.cancelBooking(rid)), []);
-  return { targets, loading, error, fetchTargets, fetchTarget, fetchSlots, fetchSlotRange, book, prepare, confirm, myBookings, cancel };
+  const fetchTarget = React.useCallback((id: string) => run("fetchTarget", (signal) => core.getTarget(id, { signal }), { read: true }), []);
+  const fetchSlots = React.useCallback((id: string, p: Record<string, string>) => run("fetchSlots", (signal) => core.getAvailableSlots(id, p, { signal }), { read: true }), []);
+  const fetchSlotRange = React.useCallback((id: string, p: Record<string, string>) => run("fetchSlotRange", (signal) => core.getSlotRange(id, p, { signal }), { read: true }), []);
+  const book = React.useCallback((id: string, data: any) => run("book", () => core.createBooking(id, data)), []);
+  const prepare = React.useCallback((id: string, data: any) => run("prepare", () => core.prepareBooking(id, data)), []);
+  const confirm = React.useCallback((id: string, payload: any) => run("confirm", () => core.confirmBooking(id, payload)), []);
+  const myBookings = React.useCallback((p: Record<string, string> = {}) => run("myBookings", (signal) => core.listMyBookings(p, { signal }), { read: true }), []);
+  const cancel = React.useCallback((rid: string) => run("cancel", () => core.cancelBooking(rid)), []);
+  // fieldErrors: book/prepare 의 VALIDATION_ERROR(form_data.* 경로) → 예약 폼 필드 표시용
+  return { targets, loading, error, fieldErrors, actions, fetchTargets, fetchTarget, fetchSlots, fetchSlotRange, book, prepare, confirm, myBookings, cancel };
 }
 
 export function useStore() {
   const React = getReact();
-  const { loading, error, run } = useAsync();
+  const { loading, error, actions, run } = useAsync();
   const [config, setConfig] = React.useState<core.StoreConfig | null>(null);
   const [products, setProducts] = React.useState<core.Product[] | null>(null);
-  const fetchConfig = React.useCallback(() => run(async () => { const d = await core.getStoreConfig(); setConfig(d); return d; }), []);
-  const fetchProducts = React.useCallback((p: Record<string, string> = {}) => run(async () => { const d = await core.listProducts(p); setProducts((d as any).items ?? []); return d; }), []);
-  const fetchProduct = React.useCallback((id: string) => run(() => core.getProduct(id)), []);
-  const prepare = React.useCallback((productId: string, qty: number) => run(() => core.prepareOrder(productId, qty)), []);
-  const confirm = React.useCallback((data: any) => run(() => core.confirmOrder(data)), []);
-  const myOrders = React.useCallback((p: Record<string, string> = {}) => run(() => core.listMyOrders(p)), []);
-  const confirmPurchase = React.useCallback((orderId: string) => run(() => core.confirmPurchase(orderId)), []);
-  const cancel = React.useCallback((orderId: string, reason: string) => run(() => core.cancelOrder(orderId, reason)), []);
-  return { config, products, loading, error, fetchConfig, fetchProducts, fetchProduct, prepare, confirm, myOrders, confirmPurchase, cancel };
+  const fetchConfig = React.useCallback(() => run("fetchConfig", (signal) => core.getStoreConfig({ signal }), { read: true, apply: setConfig }), []);
+  const fetchProducts = React.useCallback(
+    (p: Record<string, string> = {}) =>
+      run("fetchProducts", (signal, current) => core.listProducts(p, { signal, cache: { onUpdate: (u) => current() && setProducts(u.items ?? []) } }), { read: true, apply: (d) => setProducts(d.items ?? []) }),
+    []
+  );
+  const fetchProduct = React.useCallback((id: string) => run("fetchProduct", (signal) => core.getProduct(id, { signal }), { read: true }), []);
+  const prepare = React.useCallback((productId: string, qty: number) => run("prepare", () => core.prepareOrder(productId, qty)), []);
+  const confirm = React.useCallback((data: any) => run("confirm", () => core.confirmOrder(data)), []);
+  const myOrders = React.useCallback((p: Record<string, string> = {}) => run("myOrders", (signal) => core.listMyOrders(p, { signal }), { read: true }), []);
+  const confirmPurchase = React.useCallback((orderId: string) => run("confirmPurchase", () => core.confirmPurchase(orderId)), []);
+  const cancel = React.useCallback((orderId: string, reason: string) => run("cancel", () => core.cancelOrder(orderId, reason)), []);
+  return { config, products, loading, error, actions, fetchConfig, fetchProducts, fetchProduct, prepare, confirm, myOrders, confirmPurchase, cancel };
 }
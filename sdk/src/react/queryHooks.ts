@@ -0,0 +1,99 @@
+/**
+ * 선언형 조회 훅 — 마운트/인자 변경 시 자동 조회. 앱이 useEffect 로 fetch* 를 부를 필요가 없다.
+ * 공통 반환 { data, loading, error, refetch }. 인자 자리에 null/undefined 를 주면 조회하지 않는다
+ * (boardId 가 아직 없을 때, 로그인 전 내 예약 등).
+ * 인자가 바뀌면 이전 요청은 취소되고 늦게 도착한 응답은 버린다 — 화면엔 항상 마지막 인자의 결과만.
+ */
+import { getReact } from "./host";
+import * as core from "../core/index";
+
+export interface QueryState<T> {
+  data: T | null;
+  loading: boolean;
+  error: Error | null;
+  /** 캐시를 무시하고 다시 조회 */
+  refetch: () => void;
+}
+
+/** key(JSON 직렬화)가 바뀔 때만 재조회. key 가 null 이면 대기 상태. 페이지 훅도 이걸 쓴다(공개 표면 아님) */
+export function useQuery<T>(
+  key: unknown[] | null,
+  fetcher: (call: core.QueryCallOptions<T>) => Promise<T>
+): QueryState<T> {
+  const React = getReact();
+  const hash = key === null ? null : JSON.stringify(key);
+  const [state, setState] = React.useState<Omit<QueryState<T>, "refetch">>({
+    data: null,
+    loading: hash !== null,
+    error: null,
+  });
+  const fetcherRef = React.useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const seq = React.useRef(0);
+  const ctrlRef = React.useRef<AbortController | null>(null);
+
+  const load = React.useCallback(
+    (force: boolean) => {
+      ctrlRef.current?.abort();
+      const id = ++seq.current;
+      if (hash === null) {
+        ctrlRef.current = null;
+        setState({ data: null, loading: false, error: null });
+        return;
+      }
+      const ctrl = new AbortController();
+      ctrlRef.current = ctrl;
+      const current = () => id === seq.current && !ctrl.signal.aborted;
+      const settle = (data: T) => {
+        if (current()) setState({ data, loading: false, error: null });
+      };
+      // 인자 변경 중엔 이전 data 를 유지(목록이 깜빡이지 않게) — loading 으로 구분
+      setState((s) => ({ ...s, loading: true, error: null }));
+      fetcherRef.current({ signal: ctrl.signal, cache: { force, onUpdate: settle } }).then(settle, (e) => {
+        if (current()) setState((s) => ({ ...s, loading: false, error: e as Error }));
+      });
+    },
+    [hash]
+  );
+
+  React.useEffect(() => {
+    load(false);
+    return () => ctrlRef.current?.abort();
+  }, [load]);
+
+  const refetch = React.useCallback(() => load(true), [load]);
+  return { ...state, refetch };
+}
+
+export function useBoardPosts(boardId: string | null | undefined, options: core.PostListOptions = {}) {
+  return useQuery<core.PostListResult>(boardId ? [boardId, options] : null, (call) => core.listPosts(boardId!, options, call));
+}
+
+export function useBoardSettings(boardId: string | null | undefined) {
+  return useQuery<core.BoardSettings | null>(boardId ? [boardId] : null, (call) => core.getBoardSettings(boardId!, call));
+}
+
+export function usePost(postId: string | null | undefined) {
+  return useQuery<core.BoardPost>(postId ? [postId] : null, ({ signal }) => core.getPost(postId!, { signal })); // 상세는 캐시하지 않는다(조회수·숨김·권한)
+}
+
+export function useNoticePosts(options: core.PostListOptions = {}) {
+  return useQuery<core.PostListResult>([options], (call) => core.listNoticePosts(options, call));
+}
+
+export function useFaqPosts(options: core.PostListOptions = {}) {
+  return useQuery<core.PostListResult>([options], (call) => core.listFaqPosts(options, call));
+}
+
+export function useProducts(params: Record<string, string> = {}) {
+  return useQuery<core.ProductListResult>([params], (call) => core.listProducts(params, call));
+}
+
+/** 회원 전용 — 로그인 확인 전엔 null 을 넘겨 401 을 만들지 않는다 */
+export function useMyBookings(params: Record<string, string> | null = {}) {
+  return useQuery(params ? [params] : null, (call: core.CallOptions) => core.listMyBookings(params!, call));
+}
+
+export function useMyOrders(params: Record<string, string> | null = {}) {
+  return useQuery(params ? [params] : null, (call: core.CallOptions) => core.listMyOrders(params!, call));
+}
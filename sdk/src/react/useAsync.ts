@@ -0,0 +1,96 @@
+/**
+ * useAsync — 기능 훅 공용 비동기 상태. 동작(action) 이름별로 { loading, error, fieldErrors } 를 따로 둔다.
+ *  - 같은 동작을 다시 부르면 이전 호출의 결과는 버린다(늦게 온 fetchPosts 가 새 결과를 덮지 않게)
+ *  - 조회(read)는 새 호출·언마운트 시 요청 자체를 취소한다
+ *  - 쓰기는 취소하지 않는다 — 서버 반영 여부를 알 수 없게 되므로. 언마운트 후엔 상태만 건드리지 않는다
+ */
+import { getReact } from "./host";
+import { fieldErrorsOf } from "../core/http";
+import type { FieldErrors } from "../core/http";
+import { isBaasError } from "../core/errors";
+
+export interface ActionState {
+  loading: boolean;
+  error: Error | null;
+  /** VALIDATION_ERROR 의 필드별 에러 → 폼 필드 표시용 */
+  fieldErrors: FieldErrors;
+}
+
+export interface RunOptions<T> {
+  /** 조회 — 같은 동작의 이전 요청과 언마운트 시 요청을 abort 한다 */
+  read?: boolean;
+  /** 최신 호출이고 마운트 상태일 때만 결과를 상태에 반영 */
+  apply?: (data: T) => void;
+}
+
+/**
+ * fn 은 (signal, current) 를 받는다. signal 은 read 일 때만 있다.
+ * current() 는 캐시 onUpdate 처럼 나중에 도착하는 값을 반영해도 되는지 판단할 때 쓴다.
+ */
+export type RunFn = <T>(
+  action: string,
+  fn: (signal: AbortSignal | undefined, current: () => boolean) => Promise<T>,
+  opts?: RunOptions<T>
+) => Promise<T | null>;
+
+const IDLE: ActionState = { loading: false, error: null, fieldErrors: {} };
+
+export function useAsync() {
+  const React = getReact();
+  const [state, setState] = React.useState<{ actions: Record<string, ActionState>; last: string | null }>({
+    actions: {},
+    last: null,
+  });
+  const mounted = React.useRef(true);
+  const seqs = React.useRef<Record<string, number>>({});
+  const reads = React.useRef<Record<string, AbortController>>({});
+
+  React.useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+      for (const ctrl of Object.values(reads.current)) ctrl.abort();
+    };
+  }, []);
+
+  const run: RunFn = React.useCallback(async (action, fn, opts = {}) => {
+    const id = (seqs.current[action] ?? 0) + 1;
+    seqs.current[action] = id;
+    const current = () => mounted.current && seqs.current[action] === id;
+    const set = (s: ActionState) => setState((prev) => ({ actions: { ...prev.actions, [action]: s }, last: action }));
+
+    let ctrl: AbortController | undefined;
+    if (opts.read) {
+      reads.current[action]?.abort();
+      ctrl = reads.current[action] = new AbortController();
+    }
+    set({ loading: true, error: null, fieldErrors: {} });
+    try {
+      const data = await fn(ctrl?.signal, current);
+      if (current()) {
+        opts.apply?.(data);
+        set(IDLE);
+      }
+      return data;
+    } catch (e) {
+      // 취소는 실패가 아니다 — 새 호출이 이미 상태를 잡고 있거나 언마운트됨
+      if (current()) set(isBaasError(e, "ABORTED") ? IDLE : { loading: false, error: e as Error, fieldErrors: fieldErrorsOf(e) });
+      return null;
+    } finally {
+      if (ctrl && reads.current[action] === ctrl) delete reads.current[action];
+    }
+  }, []);
+
+  const { actions, last } = state;
+  const lastState = (last && actions[last]) || IDLE;
+  return {
+    run,
+    /** 동작별 상태 — 키는 훅이 돌려주는 함수 이름(fetchPosts, submitPost …) */
+    actions,
+    /** 어느 동작이든 진행 중이면 true(기존 단일 loading 호환) */
+    loading: Object.values(actions).some((a) => a.loading),
+    /** 가장 최근에 시작·종료된 동작의 에러 */
+    error: lastState.error,
+    fieldErrors: lastState.fieldErrors,
+  };
+}
@@ -1,68 +1,196 @@
 /**
  * useBoard — 게시판 CRUD 훅. host React 사용(JSX 미사용).
- * 상태(posts/post/loading/error) + 동작. board_id 는 호출부가 넘긴다.
+ * 상태(posts/post/loading/error/fieldErrors + 동작별 actions) + 동작. board_id 는 호출부가 넘긴다.
+ * useFileUpload — 글쓰기 폼의 첨부 업로드(진행률·취소). 결과 fileIds 를 submitPost 의 file_ids 로.
+ * submitPost/editPost 성공 시 그 글의 임시저장 초안(usePostDraft)을 지운다.
  */
 import { getReact } from "./host";
+import { useAsync } from "./useAsync";
 import {
   listPosts,
   getPost,
   createPost,
   updatePost,
   deletePost,
+  getBoardSettings,
+  validatePostInput,
+  togglePostHidden,
+  reportPost as apiReportPost,
 } from "../core/board";
-import type { BoardPost, PostListResult, PostListOptions, PostCreateInput } from "../core/board";
+import type {
+  BoardPost,
+  BoardSettings,
+  PostListResult,
+  PostListOptions,
+  PostCreateInput,
+  ReportInput,
+} from "../core/board";
+import { uploadFiles } from "../core/upload";
+import { clearDraft } from "../core/draft";
+import type { BoardFile, UploadOptions, UploadProgress } from "../core/upload";
 
 export function useBoard() {
   const React = getReact();
   const [posts, setPosts] = React.useState<PostListResult | null>(null);
   const [post, setPost] = React.useState<BoardPost | null>(null);
-  const [loading, setLoading] = React.useState(false);
-  const [error, setError] = React.useState<Error | null>(null);
-
-  async function run<T>(fn: () => Promise<T>): Promise<T | null> {
-    setLoading(true);
-    setError(null);
-    try {
-      return await fn();
-    } catch (e) {
-      setError(e as Error);
-      return null;
-    } finally {
-      setLoading(false);
-    }
-  }
+  // 목록·상세 응답에 실려 오는 board_settings 를 따로 보관 — 댓글/첨부/별점 UI 노출 판단용
+  const [settings, setSettings] = React.useState<BoardSettings | null>(null);
+  const settingsRef = React.useRef(settings);
+  settingsRef.current = settings;
+  // fieldErrors: submitPost/editPost 의 VALIDATION_ERROR → 폼 필드 표시용
+  const { run, actions, loading, error, fieldErrors } = useAsync();
+
+  const applyPosts = (d: PostListResult) => {
+    setPosts(d);
+    if (d.board_settings) setSettings(d.board_settings);
+  };
+  const applyPost = (d: BoardPost) => {
+    setPost(d);
+    if (d.board_settings) setSettings(d.board_settings);
+  };
 
   const fetchPosts = React.useCallback(
     (boardId: string, options: PostListOptions = {}) =>
-      run(async () => {
-        const data = await listPosts(boardId, options);
-        setPosts(data);
-        return data;
-      }),
+      run(
+        "fetchPosts",
+        // 오래된 캐시를 먼저 보여주고, 백그라운드 재조회 결과로 교체
+        (signal, current) =>
+          listPosts(boardId, options, { signal, cache: { onUpdate: (d) => current() && applyPosts(d) } }),
+        { read: true, apply: applyPosts }
+      ),
     []
   );
 
   const fetchPost = React.useCallback(
     (postId: string) =>
-      run(async () => {
-        const data = await getPost(postId);
-        setPost(data);
-        return data;
-      }),
+      run(
+        "fetchPost",
+        (signal) => getPost(postId, { signal }), // 상세는 캐시 없이 — 조회수·숨김·권한이 매번 서버 기준
+        { read: true, apply: applyPost }
+      ),
+    []
+  );
+
+  /** 글쓰기 화면처럼 목록 없이 설정만 필요할 때 */
+  const fetchSettings = React.useCallback(
+    (boardId: string) => run("fetchSettings", (signal) => getBoardSettings(boardId, { signal }), { read: true, apply: setSettings }),
     []
   );
 
   const submitPost = React.useCallback(
-    (boardId: string, data: PostCreateInput) => run(() => createPost(boardId, data)),
+    (boardId: string, data: PostCreateInput) =>
+      run("submitPost", async () => {
+        validatePostInput(data, settingsRef.current); // 알고 있는 설정으로 카테고리까지 사전 검증
+        const created = await createPost(boardId, data);
+        clearDraft(boardId); // 새 글 초안은 끝 — usePostDraft 의 대기 중 저장도 버려진다
+        return created;
+      }),
     []
   );
 
   const editPost = React.useCallback(
-    (postId: string, data: Partial<PostCreateInput>) => run(() => updatePost(postId, data)),
+    (postId: string, data: Partial<PostCreateInput>) =>
+      run("editPost", async () => {
+        validatePostInput(data, settingsRef.current);
+        const updated = await updatePost(postId, data);
+        clearDraft(updated.board_id ?? null, postId);
+        return updated;
+      }),
+    []
+  );
+
+  const removePost = React.useCallback((postId: string) => run("removePost", () => deletePost(postId)), []);
+
+  // 목록·상세에 같은 글이 있으면 둘 다 반영
+  const patchPost = (postId: string, patch: { is_hidden: boolean }) => {
+    setPost((p) => (p && p.id === postId ? { ...p, ...patch } : p));
+    setPosts((l) => l && { ...l, items: l.items.map((i) => (i.id === postId ? { ...i, ...patch } : i)) });
+  };
+
+  // 낙관적 숨김의 글별 마지막 쓰기 — 겹친 토글 중 앞의 실패가 뒤의 값을 되돌리지 않게
+  const shown = React.useRef({ post, posts });
+  shown.current = { post, posts };
+  const hiddenWrites = React.useRef<Record<string, number>>({});
+
+  /** 낙관적 숨김 — 먼저 화면에 반영하고, 실패하면 이 호출이 마지막 쓰기일 때만 이전 값으로 되돌린다 */
+  const setPostHidden = React.useCallback(async (postId: string, isHidden: boolean) => {
+    const { post: p, posts: l } = shown.current;
+    const target = p?.id === postId ? p : l?.items.find((i) => i.id === postId);
+    const before = target ? !!target.is_hidden : undefined; // 화면에 없는 글은 되돌릴 값도 없다
+    const write = (hiddenWrites.current[postId] ?? 0) + 1;
+    hiddenWrites.current[postId] = write;
+    patchPost(postId, { is_hidden: isHidden });
+    const res = await run("setPostHidden", () => togglePostHidden(postId, isHidden));
+    if (res === null && hiddenWrites.current[postId] === write && before !== undefined) {
+      patchPost(postId, { is_hidden: before });
+    }
+    return res;
+  }, []);
+
+  const reportPost = React.useCallback(
+    (postId: string, input: ReportInput) => run("reportPost", () => apiReportPost(postId, input)),
+    []
+  );
+
+  return {
+    posts, post, settings, loading, error, fieldErrors, actions,
+    fetchPosts, fetchPost, fetchSettings, submitPost, editPost, removePost, setPostHidden, reportPost,
+  };
+}
+
+export function useFileUpload(options: Omit<UploadOptions, "onProgress" | "signal"> = {}) {
+  const React = getReact();
+  const [files, setFiles] = React.useState<BoardFile[]>([]);
+  const [progress, setProgress] = React.useState<UploadProgress | null>(null);
+  const { run, actions, error, fieldErrors } = useAsync();
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
+  // 업로드는 여러 번 나눠 선택할 수 있어 동작별 취소(useAsync read)를 쓰지 않고 직접 모아 둔다
+  const ctrls = React.useRef(new Set<AbortController>());
+
+  const cancel = React.useCallback(() => {
+    for (const ctrl of ctrls.current) ctrl.abort();
+    ctrls.current.clear();
+    setProgress(null);
+  }, []);
+  React.useEffect(() => cancel, []);
+
+  const upload = React.useCallback(
+    (selected: File[]) => {
+      const ctrl = new AbortController();
+      ctrls.current.add(ctrl);
+      return run("upload", async () => {
+        try {
+          const res = await uploadFiles(selected, { ...optionsRef.current, signal: ctrl.signal, onProgress: setProgress });
+          if (!ctrl.signal.aborted) {
+            setFiles((prev) => [...prev, ...res.files]);
+            setProgress(null);
+          }
+          return res;
+        } finally {
+          ctrls.current.delete(ctrl);
+        }
+      });
+    },
     []
   );
 
-  const removePost = React.useCallback((postId: string) => run(() => deletePost(postId)), []);
+  const remove = React.useCallback((id: number) => setFiles((prev) => prev.filter((f) => f.id !== id)), []);
+  const reset = React.useCallback(() => {
+    cancel();
+    setFiles([]);
+  }, []);
 
-  return { posts, post, loading, error, fetchPosts, fetchPost, submitPost, editPost, removePost };
+  return {
+    files,
+    fileIds: files.map((f) => f.id),
+    progress,
+    uploading: actions.upload?.loading ?? false,
+    error,
+    fieldErrors,
+    upload,
+    remove,
+    reset,
+    cancel,
+  };
 }
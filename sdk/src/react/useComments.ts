@@ -0,0 +1,201 @@
+/**
+ * useComments — 게시글 댓글 트리(루트 → 대댓글 1레벨) 훅. host React 사용(JSX 미사용).
+ * 작성·수정·삭제·숨김은 낙관적으로 먼저 그리고, 서버 응답으로 확정하거나 실패 시 되돌린다.
+ * 작성 중인 항목은 pending: true 로 표시된다(임시 id — 수정/삭제 버튼은 숨긴다).
+ */
+import { getReact } from "./host";
+import { useAsync } from "./useAsync";
+import * as core from "../core/index";
+import type { Comment, CommentSort, CommentListResult } from "../core/index";
+
+/** 화면용 댓글 — 서버 응답 + 낙관적 표시 상태(서버는 보내지 않는 필드) */
+export interface CommentNode extends Comment {
+  /** 낙관적으로 먼저 그린 항목(서버 미확정). 서버 응답이 오면 사라진다 */
+  pending?: boolean;
+}
+
+/** 루트 댓글 + 대댓글(화면용) */
+export interface CommentNodeThread extends CommentNode {
+  replies: CommentNode[];
+}
+
+// ── 트리 불변 갱신 (루트/대댓글 어디에 있든 id 로 찾는다) ──
+
+function updateNode(tree: CommentNodeThread[], id: string, fn: (c: CommentNode) => CommentNode): CommentNodeThread[] {
+  return tree.map((t) => {
+    if (t.id === id) return { ...fn(t), replies: t.replies };
+    if (t.replies.some((r) => r.id === id)) return { ...t, replies: t.replies.map((r) => (r.id === id ? fn(r) : r)) };
+    return t;
+  });
+}
+
+function insertNode(tree: CommentNodeThread[], c: CommentNode, sort: CommentSort): CommentNodeThread[] {
+  if (c.parent_id) return tree.map((t) => (t.id === c.parent_id ? { ...t, replies: [...t.replies, c] } : t));
+  const node: CommentNodeThread = { ...c, replies: [] };
+  return sort === "newest" ? [node, ...tree] : [...tree, node];
+}
+
+/** 삭제 실패 시 원래 자리로 돌려놓기 위한 위치 */
+interface Removed {
+  node: CommentNode | CommentNodeThread;
+  parentId: string | null;
+  index: number;
+}
+
+function removeNode(tree: CommentNodeThread[], id: string): { tree: CommentNodeThread[]; removed: Removed | null } {
+  const rootIndex = tree.findIndex((t) => t.id === id);
+  if (rootIndex >= 0) {
+    return { tree: tree.filter((t) => t.id !== id), removed: { node: tree[rootIndex], parentId: null, index: rootIndex } };
+  }
+  for (const t of tree) {
+    const index = t.replies.findIndex((r) => r.id === id);
+    if (index >= 0) {
+      return {
+        tree: tree.map((x) => (x === t ? { ...t, replies: t.replies.filter((r) => r.id !== id) } : x)),
+        removed: { node: t.replies[index], parentId: t.id, index },
+      };
+    }
+  }
+  return { tree, removed: null };
+}
+
+function restoreNode(tree: CommentNodeThread[], { node, parentId, index }: Removed): CommentNodeThread[] {
+  const at = <T>(list: T[], item: T) => [...list.slice(0, index), item, ...list.slice(index)];
+  if (!parentId) return at(tree, node as CommentNodeThread);
+  return tree.map((t) => (t.id === parentId ? { ...t, replies: at(t.replies, node) } : t));
+}
+
+function findNode(tree: CommentNodeThread[], id: string): CommentNode | null {
+  for (const t of tree) {
+    if (t.id === id) return t;
+    const r = t.replies.find((x) => x.id === id);
+    if (r) return r;
+  }
+  return null;
+}
+
+const sizeOf = (node: CommentNode | CommentNodeThread) => 1 + (((node as CommentNodeThread).replies?.length) ?? 0);
+
+let tempSeq = 0;
+
+export function useComments() {
+  const React = getReact();
+  const { loading, error, fieldErrors, actions, run } = useAsync();
+  const [state, setState] = React.useState<{ comments: CommentNodeThread[] | null; total: number }>({ comments: null, total: 0 });
+  // 낙관적 갱신은 직전 트리에서 동기로 계산해야 해서(되돌릴 값 확보) 상태를 ref 에도 둔다
+  const stateRef = React.useRef(state);
+  const [sort, setSort] = React.useState<CommentSort>("oldest");
+  const sortRef = React.useRef(sort);
+  sortRef.current = sort;
+  const postIdRef = React.useRef<string | null>(null);
+
+  const commit = (next: typeof state) => {
+    stateRef.current = next;
+    setState(next);
+  };
+  const edit = (fn: (tree: CommentNodeThread[]) => CommentNodeThread[], delta = 0) => {
+    const s = stateRef.current;
+    commit({ comments: s.comments && fn(s.comments), total: s.total + delta });
+  };
+  const applyList = (d: CommentListResult) =>
+    commit({ comments: core.buildCommentTree(d.items ?? []), total: d.total_count ?? 0 });
+
+  const fetchComments = React.useCallback(
+    (postId: string, nextSort: CommentSort = sortRef.current) => {
+      postIdRef.current = postId;
+      setSort(nextSort);
+      return run(
+        "fetchComments",
+        (signal, current) =>
+          core.listCommentThreads(postId, nextSort, { signal, cache: { onUpdate: (d) => current() && applyList(d) } }),
+        { read: true, apply: applyList }
+      );
+    },
+    []
+  );
+
+  /** 정렬 전환 — 마지막으로 조회한 게시글을 새 정렬로 다시 조회 */
+  const changeSort = React.useCallback((nextSort: CommentSort) => {
+    if (postIdRef.current) return fetchComments(postIdRef.current, nextSort);
+    setSort(nextSort);
+    return Promise.resolve(null);
+  }, []);
+
+  const addComment = React.useCallback(async (postId: string, content: string, parentId?: string) => {
+    const tempId = `temp-${++tempSeq}`;
+    const temp: CommentNode = { id: tempId, post_id: postId, parent_id: parentId ?? null, content, pending: true, created_at: new Date().toISOString() };
+    edit((t) => insertNode(t, temp, sortRef.current), 1);
+    const saved = await run("addComment", () =>
+      core.createComment(postId, parentId ? { content, parent_id: parentId } : { content })
+    );
+    // 성공: 임시 항목을 서버 응답으로 교체(id·작성자·시각 확정) / 실패: 임시 항목 제거.
+    // 요청 중 목록이 재조회로 바뀌어 임시 항목이 없으면, 새 목록에 없을 때만 서버 응답을 넣는다
+    const tree = stateRef.current.comments ?? [];
+    const hasTemp = !!findNode(tree, tempId);
+    if (saved) {
+      if (hasTemp) edit((t) => updateNode(t, tempId, () => saved));
+      else if (!findNode(tree, saved.id)) edit((t) => insertNode(t, saved, sortRef.current), 1);
+    } else if (hasTemp) {
+      edit((t) => removeNode(t, tempId).tree, -1);
+    }
+    return saved;
+  }, []);
+
+  const editComment = React.useCallback(async (postId: string, commentId: string, content: string) => {
+    const before = findNode(stateRef.current.comments ?? [], commentId);
+    edit((t) => updateNode(t, commentId, (c) => ({ ...c, content, pending: true })));
+    const saved = await run("editComment", () => core.updateComment(postId, commentId, { content }));
+    edit((t) => updateNode(t, commentId, (c) => (saved ? { ...c, ...saved, pending: false } : before ?? { ...c, pending: false })));
+    return saved;
+  }, []);
+
+  const removeComment = React.useCallback(async (postId: string, commentId: string) => {
+    const { removed: target } = removeNode(stateRef.current.comments ?? [], commentId);
+    const size = target ? sizeOf(target.node) : 0;
+    edit((t) => removeNode(t, commentId).tree, -size);
+    const ok = await run("removeComment", () => core.deleteComment(postId, commentId));
+    if (ok === null && target) edit((t) => restoreNode(t, target), size);
+    return ok;
+  }, []);
+
+  // 낙관적 숨김의 댓글별 마지막 쓰기 — 겹친 토글 중 앞의 실패가 뒤의 값을 되돌리지 않게
+  const hiddenWrites = React.useRef<Record<string, number>>({});
+
+  /** 낙관적 숨김 — 실패하면 이 호출이 마지막 쓰기일 때만 이전 값으로 되돌린다 */
+  const setCommentHidden = React.useCallback(async (commentId: string, isHidden: boolean) => {
+    const target = findNode(stateRef.current.comments ?? [], commentId);
+    const before = target ? !!target.is_hidden : undefined; // 화면에 없는 댓글은 되돌릴 값도 없다
+    const write = (hiddenWrites.current[commentId] ?? 0) + 1;
+    hiddenWrites.current[commentId] = write;
+    edit((t) => updateNode(t, commentId, (c) => ({ ...c, is_hidden: isHidden })));
+    const res = await run("setCommentHidden", () => core.toggleCommentHidden(commentId, isHidden));
+    if (res === null && hiddenWrites.current[commentId] === write && before !== undefined) {
+      edit((t) => updateNode(t, commentId, (c) => ({ ...c, is_hidden: before })));
+    }
+    return res;
+  }, []);
+
+  const reportComment = React.useCallback(
+    (commentId: string, input: core.ReportInput) => run("reportComment", () => core.reportComment(commentId, input)),
+    []
+  );
+
+  return {
+    /** 루트 댓글 배열(각각 replies 포함) */
+    comments: state.comments,
+    /** 대댓글 포함 전체 수 */
+    total: state.total,
+    sort,
+    loading,
+    error,
+    fieldErrors,
+    actions,
+    fetchComments,
+    changeSort,
+    addComment,
+    editComment,
+    removeComment,
+    setCommentHidden,
+    reportComment,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * 목록 페이지 훅 — 번호 페이지(usePaginatedPosts)·무한 스크롤(useInfinitePosts).
+ * source 는 게시판 board_id 문자열 또는 PostListResult 를 돌려주는 목록 함수(BaasSDK.listNoticePosts 등).
+ * filters(keyword/category/category_group)나 pageSize 가 바뀌면 1페이지부터 다시 시작한다.
+ */
+import { getReact } from "./host";
+import { useQuery } from "./queryHooks";
+import * as core from "../core/index";
+import type { PageSource, PageFilters, InfiniteState } from "../core/index";
+
+export type PostSource = string | PageSource;
+
+export interface PageHookOptions {
+  pageSize?: number;
+}
+
+const toSource = (source: PostSource): PageSource =>
+  typeof source === "string" ? (o, call) => core.listPosts(source, o, call) : source;
+
+/** 필터 변경 판단용 키 — 함수 source 는 렌더마다 새로 만들어질 수 있어 키에 넣지 않는다 */
+const keyOf = (source: PostSource | null | undefined, filters: PageFilters, pageSize: number) =>
+  JSON.stringify([typeof source === "string" ? source : !!source, filters, pageSize]);
+
+export function usePaginatedPosts(
+  source: PostSource | null | undefined,
+  filters: PageFilters = {},
+  { pageSize = core.DEFAULT_PAGE_SIZE }: PageHookOptions = {}
+) {
+  const React = getReact();
+  const key = keyOf(source, filters, pageSize);
+  const [page, setPageState] = React.useState({ key, page: 1 });
+  // 필터가 바뀐 렌더에서 바로 1페이지로 — effect 로 되돌리면 이전 페이지 번호로 한 번 더 조회한다
+  const current = page.key === key ? page.page : 1;
+  const sourceRef = React.useRef(source);
+  sourceRef.current = source;
+
+  const { data, loading, error, refetch } = useQuery<core.Page>(source ? [key, current] : null, (call) =>
+    core.fetchPage(toSource(sourceRef.current!), current, { pageSize, filters }, call)
+  );
+
+  const pageCount = data?.pageCount ?? null;
+  const setPage = React.useCallback(
+    (n: number) => setPageState({ key, page: Math.max(1, pageCount ? Math.min(n, pageCount) : n) }),
+    [key, pageCount]
+  );
+
+  return {
+    items: data?.items ?? [],
+    page: current,
+    pageCount,
+    total: data?.total ?? null,
+    hasMore: data?.hasMore ?? false,
+    /** 응답의 board_settings (게시판 source 일 때) */
+    settings: data?.result.board_settings ?? null,
+    loading,
+    error,
+    setPage,
+    next: () => setPage(current + 1),
+    prev: () => setPage(current - 1),
+    refetch,
+  };
+}
+
+export function useInfinitePosts(
+  source: PostSource | null | undefined,
+  filters: PageFilters = {},
+  { pageSize = core.DEFAULT_PAGE_SIZE }: PageHookOptions = {}
+) {
+  const React = getReact();
+  const key = keyOf(source, filters, pageSize);
+  const sourceRef = React.useRef(source);
+  sourceRef.current = source;
+
+  // 필터(key)마다 새 목록 — 이전 목록의 늦은 응답은 그 목록에만 쌓이고 화면엔 반영되지 않는다
+  const list = React.useMemo(
+    () => core.createInfiniteList((o, call) => toSource(sourceRef.current!)(o, call), { pageSize, filters }),
+    [key]
+  );
+  const [state, setState] = React.useState<{ list: core.InfiniteList; data: InfiniteState; loading: boolean; error: Error | null }>(
+    () => ({ list, data: list.state(), loading: false, error: null })
+  );
+  const ctrlRef = React.useRef<AbortController | null>(null);
+
+  const loadMore = React.useCallback(() => {
+    if (!source) return Promise.resolve(list.state());
+    const ctrl = (ctrlRef.current ??= new AbortController());
+    const mine = (s: typeof state) => s.list === list; // 다른 필터의 목록이면 무시
+    setState((s) => (mine(s) ? { ...s, loading: true, error: null } : s));
+    return list.loadMore({ signal: ctrl.signal }).then(
+      (data) => {
+        setState((s) => (mine(s) ? { list, data, loading: false, error: null } : s));
+        return data;
+      },
+      (e) => {
+        const aborted = core.isBaasError(e, "ABORTED");
+        setState((s) => (mine(s) ? { ...s, loading: false, error: aborted ? null : (e as Error) } : s));
+        return list.state();
+      }
+    );
+  }, [list, !!source]);
+
+  React.useEffect(() => {
+    setState({ list, data: list.state(), loading: false, error: null });
+    loadMore();
+    return () => {
+      ctrlRef.current?.abort();
+      ctrlRef.current = null;
+    };
+  }, [loadMore]);
+
+  /** 당겨서 새로고침 — 처음부터 다시(캐시 무시) */
+  const refresh = React.useCallback(() => {
+    list.reset();
+    setState({ list, data: list.state(), loading: true, error: null });
+    const ctrl = (ctrlRef.current ??= new AbortController());
+    return list.loadMore({ signal: ctrl.signal, cache: { force: true } }).then(
+      (data) => setState((s) => (s.list === list ? { list, data, loading: false, error: null } : s)),
+      (e) => {
+        const aborted = core.isBaasError(e, "ABORTED");
+        setState((s) => (s.list === list ? { ...s, loading: false, error: aborted ? null : (e as Error) } : s));
+      }
+    );
+  }, [list]);
+
+  const data = state.list === list ? state.data : list.state();
+  return {
+    items: data.items,
+    total: data.total,
+    hasMore: data.hasMore,
+    loading: state.list === list ? state.loading : true,
+    error: state.list === list ? state.error : null,
+    loadMore,
+    refresh,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * usePostDraft — 글쓰기/수정 폼 자동 임시저장. host React 사용(JSX 미사용).
+ * 입력을 update() 로 넘기면 delayMs 동안 멈춘 뒤 localStorage 에 저장하고, 다시 열면 fields 로 복원한다.
+ * useBoard 의 submitPost/editPost 가 성공하면 초안은 자동으로 지워진다(대기 중인 저장도 버림).
+ */
+import { getReact } from "./host";
+import { saveDraft, loadDraft, clearDraft, listDrafts } from "../core/draft";
+import type { PostDraft, PostDraftFields } from "../core/draft";
+import { on } from "../core/events";
+
+export const DRAFT_SAVE_DELAY_MS = 1000;
+
+interface DraftState {
+  key: string | null;
+  fields: PostDraftFields;
+  /** 마운트 시 불러온 초안 — 있으면 "작성 중이던 글을 불러왔습니다" 안내 */
+  restored: PostDraft | null;
+  savedAt: number | null;
+}
+
+const keyOf = (boardId: string | null | undefined, postId: string | null | undefined) =>
+  boardId ? `${boardId}:${postId || ""}` : null;
+
+function initial(boardId: string | null | undefined, postId: string | null | undefined): DraftState {
+  const draft = boardId ? loadDraft(boardId, postId) : null;
+  if (!draft) return { key: keyOf(boardId, postId), fields: {}, restored: null, savedAt: null };
+  const { saved_at, ...fields } = draft;
+  return { key: keyOf(boardId, postId), fields, restored: draft, savedAt: saved_at };
+}
+
+export function usePostDraft(
+  boardId: string | null | undefined,
+  postId?: string | null,
+  { delayMs = DRAFT_SAVE_DELAY_MS }: { delayMs?: number } = {}
+) {
+  const React = getReact();
+  const key = keyOf(boardId, postId);
+  const [state, setState] = React.useState<DraftState>(() => initial(boardId, postId));
+  // 게시판/글이 바뀐 렌더에서 바로 그 초안으로 — 이전 글의 내용이 한 번이라도 그려지지 않게
+  const current = state.key === key ? state : initial(boardId, postId);
+  if (current !== state) setState(current);
+  const stateRef = React.useRef(current);
+  stateRef.current = current;
+
+  // 저장 대상은 예약 시점의 게시판/글 — 디바운스 중 글이 바뀌어도 다른 초안에 쓰지 않는다
+  const pending = React.useRef<{ boardId: string; postId: string | null; fields: PostDraftFields } | null>(null);
+  const timer = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancel = () => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+    pending.current = null;
+  };
+
+  /** 대기 중인 저장을 지금 기록(페이지 이탈·언마운트 시 자동) */
+  const flush = React.useCallback(() => {
+    const p = pending.current;
+    cancel();
+    if (!p || !saveDraft(p.boardId, p.postId, p.fields)) return;
+    const savedAt = Date.now();
+    setState((s) => (s.key === keyOf(p.boardId, p.postId) ? { ...s, savedAt } : s));
+  }, []);
+
+  /** 입력 변경 — 화면 값은 즉시, 저장은 delayMs 뒤 */
+  const update = React.useCallback(
+    (patch: PostDraftFields) => {
+      const s = stateRef.current;
+      if (!boardId) return;
+      const fields = { ...s.fields, ...patch };
+      stateRef.current = { ...s, fields };
+      setState(stateRef.current);
+      pending.current = { boardId, postId: postId || null, fields };
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = setTimeout(flush, delayMs);
+    },
+    [key, delayMs]
+  );
+
+  /** 초안 버리기("새로 쓰기") */
+  const discard = React.useCallback(() => {
+    if (boardId) clearDraft(boardId, postId);
+  }, [key]);
+
+  React.useEffect(() => {
+    const off = on("draft-cleared", (e) => {
+      if ((e.boardId !== null && e.boardId !== boardId) || e.postId !== (postId || null)) return;
+      cancel();
+      setState({ key, fields: {}, restored: null, savedAt: null });
+    });
+    window.addEventListener("pagehide", flush);
+    return () => {
+      off();
+      window.removeEventListener("pagehide", flush);
+      flush(); // 글 전환·언마운트 — 마지막 입력까지 남긴다
+    };
+  }, [key]);
+
+  const drafts = React.useMemo(() => (boardId ? listDrafts(boardId) : []), [key, current.savedAt]);
+
+  return {
+    /** 폼 값 — 복원된 초안이 있으면 그 내용. 수정 화면은 비어 있으면 서버 글로 채운다 */
+    fields: current.fields,
+    restored: current.restored,
+    /** 마지막 저장 시각(ms) — "임시저장됨 12:03" 표시용 */
+    savedAt: current.savedAt,
+    /** 이 게시판의 초안 목록(새 글 + 수정 중인 글들, 최근 순) */
+    drafts,
+    update,
+    flush,
+    discard,
+  };
+}
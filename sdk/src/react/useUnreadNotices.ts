@@ -0,0 +1,34 @@
+/**
+ * useUnreadNotices — 헤더 "새 공지" 배지·목록 강조용. 최근 공지를 자동 조회해 읽음 기록과 비교한다.
+ * 읽음 기록이 바뀌면(markRead·markAllRead, 다른 컴포넌트의 markNoticeRead 포함) 같은 화면의 모든 사용처가 함께 갱신된다.
+ */
+import { getReact } from "./host";
+import { useQuery } from "./queryHooks";
+import * as core from "../core/index";
+import type { BoardPost, NoticeReadOptions } from "../core/index";
+
+export function useUnreadNotices({ limit = 20, newWithinDays }: NoticeReadOptions & { limit?: number } = {}) {
+  const React = getReact();
+  const { data, loading, error, refetch } = useQuery<core.PostListResult>([limit], (call) => core.listNoticePosts({ limit }, call));
+  const [version, setVersion] = React.useState(0);
+  React.useEffect(() => core.on("notice-read", () => setVersion((v) => v + 1)), []);
+
+  const opts = { newWithinDays };
+  const unread = React.useMemo(
+    () => (data?.items ?? []).filter((p) => core.isNoticeUnread(p, opts)),
+    [data, version, newWithinDays]
+  );
+
+  return {
+    /** 배지 숫자 — 최근 limit 건 기준 */
+    count: unread.length,
+    unread,
+    /** 목록 강조 — 다른 목록(useNoticePosts 등)의 항목에도 쓸 수 있다 */
+    isUnread: (post: BoardPost) => core.isNoticeUnread(post, opts),
+    markRead: core.markNoticeRead,
+    markAllRead: core.markAllNoticesRead,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,42 @@
+/** 화면 접근 판정 — 비로그인 → 계정 상태(지정 시) → 프로필 완성 → when 순서, 옵션별 통과. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { authDenyReason, isAccountBlocked } from "../dist/baas-core.esm.js";
+
+const user = (over = {}) => ({
+  id: "u1",
+  user_id: "kim@example.com",
+  email: "kim@example.com",
+  name: "김철수",
+  phone: "010-1234-5678",
+  is_profile_completed: true,
+  status: "active",
+  ...over,
+});
+
+test("authDenyReason — 기본은 로그인만, 계정 상태는 blockedStatuses 를 줄 때만", () => {
+  const blocked = { blockedStatuses: ["suspended", "dormant"] };
+  assert.equal(authDenyReason(null), "unauthenticated");
+  assert.equal(authDenyReason(user()), null);
+  assert.equal(authDenyReason(user({ status: "suspended" })), null); // 지정하지 않으면 상태를 보지 않는다
+  assert.equal(authDenyReason(user({ status: "SUSPENDED" }), blocked), "inactive");
+  assert.equal(authDenyReason(user({ status: "normal" }), blocked), null); // 목록에 없는 상태는 정상
+  assert.equal(authDenyReason(user({ status: undefined }), blocked), null); // 응답에 status 가 빠진 경우(런타임)
+  assert.equal(isAccountBlocked(user({ status: "dormant" }), blocked.blockedStatuses), true);
+});
+
+test("authDenyReason — requireProfile·when, 겹치면 앞의 사유", () => {
+  const incomplete = user({ is_profile_completed: false });
+  assert.equal(authDenyReason(incomplete), null); // 요구하지 않으면 통과
+  assert.equal(authDenyReason(incomplete, { requireProfile: true }), "profile-incomplete");
+
+  const vip = { when: (u) => u.data?.grade === "vip" };
+  assert.equal(authDenyReason(user(), vip), "forbidden");
+  assert.equal(authDenyReason(user({ data: { grade: "vip" } }), vip), null);
+
+  const banned = user({ status: "banned", is_profile_completed: false });
+  assert.equal(authDenyReason(banned, { requireProfile: true, ...vip }), "profile-incomplete");
+  assert.equal(authDenyReason(banned, { blockedStatuses: ["banned"], requireProfile: true, ...vip }), "inactive");
+  assert.equal(authDenyReason(incomplete, { requireProfile: true, ...vip }), "profile-incomplete");
+  assert.equal(authDenyReason(null, { when: () => true }), "unauthenticated"); // 비로그인이면 when 은 불리지 않는다
+});
@@ -0,0 +1,106 @@
+/** 탭 간 인증 동기화 계약 — BroadcastChannel 송수신 + authCache 무효화. */
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import { init, createClient, login, logout, request, checkAuth, clearAuthCache, on, startAuthSync, stopAuthSync } from "../dist/baas-core.esm.js";
+
+const PROJECT = "b59f841d-bfa3-4d63-8969-70420a4298f6";
+globalThis.window ??= globalThis; // 브라우저 판별용 — node 에도 BroadcastChannel 이 있다
+
+const peer = new BroadcastChannel(`baas-auth-sync:${PROJECT}`); // "다른 탭"
+after(() => { peer.close(); stopAuthSync(); });
+
+function mockFetch(data) {
+  globalThis.fetch = async () => ({ status: 200, json: async () => ({ result: "SUCCESS", data }) });
+}
+const nextMessage = () => new Promise((r) => { peer.onmessage = (e) => r(e.data); });
+
+test("login/logout — 다른 탭으로 전파", async () => {
+  init({ projectId: PROJECT });
+  startAuthSync();
+  mockFetch({ access_token: "t", token_type: "bearer" });
+  let msg = nextMessage();
+  await login("u", "pw");
+  assert.deepEqual(await msg, { type: "login" });
+
+  msg = nextMessage();
+  await logout();
+  assert.deepEqual(await msg, { type: "logout" });
+});
+
+test("다른 탭의 logout 수신 — auth-sync 이벤트 + checkAuth 캐시 무효화", async () => {
+  init({ projectId: PROJECT });
+  startAuthSync();
+  clearAuthCache();
+  let calls = 0;
+  globalThis.fetch = async () => { calls++; return { status: 200, json: async () => ({ result: "SUCCESS", data: { id: "1" } }) }; };
+  await checkAuth();
+  assert.equal(calls, 1);
+
+  const received = new Promise((r) => { const off = on("auth-sync", (e) => { off(); r(e); }); });
+  peer.postMessage({ type: "logout" });
+  assert.deepEqual(await received, { type: "logout" });
+
+  await checkAuth();
+  assert.equal(calls, 2); // 캐시가 비워져 재조회
+});
+
+test("세션 만료는 로그인 중이던 탭만 전파 — 비로그인 401 은 다른 탭을 로그아웃시키지 않는다", async () => {
+  init({ projectId: PROJECT });
+  startAuthSync();
+  clearAuthCache();
+  const received = [];
+  peer.onmessage = (e) => received.push(e.data);
+  const unauthorized = async () => ({ status: 401, json: async () => ({ result: "FAIL", errorCode: "UNAUTHORIZED" }) });
+
+  globalThis.fetch = unauthorized;
+  await checkAuth(); // 비로그인
+  await assert.rejects(() => request("/boards/posts/secret"));
+  await new Promise((r) => setTimeout(r, 20));
+  assert.deepEqual(received, []);
+
+  mockFetch({ id: "1" });
+  await checkAuth({ force: true }); // 로그인
+  globalThis.fetch = unauthorized;
+  await assert.rejects(() => request("/boards/posts/secret"));
+  await new Promise((r) => setTimeout(r, 20));
+  assert.deepEqual(received, [{ type: "session-expired" }]);
+});
+
+test("BroadcastChannel 없고 storage 접근이 막힌 환경 — 시작·전송이 예외 없이 동기화만 포기", async () => {
+  const { BroadcastChannel: BC } = globalThis;
+  const desc = Object.getOwnPropertyDescriptor(globalThis, "localStorage");
+  globalThis.BroadcastChannel = undefined;
+  Object.defineProperty(globalThis, "localStorage", { configurable: true, get() { throw new Error("SecurityError"); } });
+  try {
+    const client = createClient({ projectId: PROJECT });
+    client.startAuthSync();
+    mockFetch({ access_token: "t", token_type: "bearer" });
+    await client.login("u", "pw");
+    await client.logout();
+    client.stopAuthSync();
+  } finally {
+    globalThis.BroadcastChannel = BC;
+    if (desc) Object.defineProperty(globalThis, "localStorage", desc);
+    else delete globalThis.localStorage;
+  }
+});
+
+test("구독자 오류는 전역 에러 경로로 보고되고 다른 구독자·요청은 계속된다", async () => {
+  const reported = [];
+  globalThis.reportError = (e) => reported.push(e.message);
+  try {
+    const client = createClient({ projectId: PROJECT });
+    const seen = [];
+    client.on("auth-sync", () => { throw new Error("boom"); });
+    client.on("auth-sync", (e) => seen.push(e.type));
+    client.startAuthSync();
+    const received = new Promise((r) => client.on("auth-sync", r));
+    peer.postMessage({ type: "login" });
+    await received;
+    client.stopAuthSync();
+    assert.deepEqual(seen, ["login"]);
+    assert.deepEqual(reported, ["boom"]);
+  } finally {
+    delete globalThis.reportError;
+  }
+});
@@ -1,7 +1,12 @@
 /** 게시판 transport 계약 — 엔드포인트/메서드/project_id 주입 검증. */
 import { test } from "node:test";
 import assert from "node:assert/strict";
-import { init, listPosts, getPost, createPost, deletePost } from "../dist/baas-core.esm.js";
+import {
+  init, listPosts, getPost, createPost, deletePost,
+  togglePostHidden, reportPost, toggleCommentHidden, reportComment,
+  getBoardSettings, isReviewPost, isLinkPost,
+  validatePostInput, categoryChips, isChipActive,
+} from "../dist/baas-core.esm.js";
 
 const PROJECT = "b59f841d-bfa3-4d63-8969-70420a4298f6";
 const BOARD = "board-uuid-123";
@@ -51,3 +56,91 @@ test("deletePost — DELETE 경로", async () => {
   assert.equal(method, "DELETE");
   assert.equal(res, true);
 });
+
+test("togglePostHidden — PATCH is_hidden, 상세 캐시 무효화", async () => {
+  init({ projectId: PROJECT });
+  const seen = [];
+  mockFetch((url, opts) => { seen.push([opts.method, url, opts.body]); return ok({ id: "p9", is_hidden: true }); });
+  await getPost("p9");
+  await togglePostHidden("p9", true);
+  await getPost("p9");
+  assert.deepEqual(seen[1], ["PATCH", `/aiapp-baas/boards/posts/p9/hidden`, JSON.stringify({ is_hidden: true })]);
+  assert.equal(seen.length, 3); // 숨김 후 재조회는 네트워크로
+});
+
+test("신고 — 게시글/댓글 report 경로 + reason body, 댓글 숨김은 /boards/comments", async () => {
+  init({ projectId: PROJECT });
+  const seen = [];
+  mockFetch((url, opts) => { seen.push([opts.method, url, JSON.parse(opts.body)]); return ok({ id: "r1", post_id: "p1" }); });
+  await reportPost("p1", { reason: "SPAM" });
+  await reportComment("c1", { reason: "OTHER", description: "광고 링크" });
+  await toggleCommentHidden("c1", false);
+  assert.deepEqual(seen, [
+    ["POST", "/aiapp-baas/boards/posts/p1/report", { reason: "SPAM" }],
+    ["POST", "/aiapp-baas/boards/comments/c1/report", { reason: "OTHER", description: "광고 링크" }],
+    ["PATCH", "/aiapp-baas/boards/comments/c1/hidden", { is_hidden: false }],
+  ]);
+});
+
+test("getBoardSettings — 목록 1건 조회의 board_settings, 백그라운드 갱신도 설정으로 전달", async () => {
+  init({ projectId: PROJECT });
+  const settings = { allow_comment: false, is_board_enabled: true, require_login: false, allow_attachment: true, categories: null, board_type: "REVIEW" };
+  let seen;
+  mockFetch((url) => { seen = url; return ok({ items: [], total_count: 0, board_settings: settings }); });
+  assert.deepEqual(await getBoardSettings("settings-board"), settings);
+  assert.match(seen, /\/settings-board\/posts\?limit=1$/);
+
+  const updated = await new Promise((resolve) => {
+    getBoardSettings("settings-board", { cache: { ttlMs: 0, onUpdate: resolve } });
+  });
+  assert.deepEqual(updated, settings);
+});
+
+test("isReviewPost / isLinkPost — 필드 값이 아니라 게시판 타입(board_settings)으로 구분", () => {
+  const review = { board_type: "REVIEW" };
+  const free = { board_type: "FREE" };
+  assert.equal(isReviewPost({ id: "1", title: "t", rating: null }, review), true); // 별점 없는 리뷰 글도 리뷰
+  assert.equal(isReviewPost({ id: "1", title: "t", rating: 4 }, free), false);
+  assert.equal(isLinkPost({ id: "1", title: "t", link_url: "https://a.test" }, free), false); // 자유 글에 섞인 link_url
+  assert.equal(isLinkPost({ id: "1", title: "t", board_settings: { board_type: "URL_LINK" } }), true); // 상세 응답
+  assert.equal(isLinkPost({ id: "1", title: "t", link_url: "https://a.test" }), false); // 설정을 모르면 false
+});
+
+test("listPosts — category/category_group 필터 쿼리", async () => {
+  init({ projectId: PROJECT });
+  let seen;
+  mockFetch((url) => { seen = new URL(url, "https://x.test"); return ok({ items: [] }); });
+  await listPosts(BOARD, { category: "질문", category_group: "유형" });
+  assert.equal(seen.searchParams.get("category"), "질문");
+  assert.equal(seen.searchParams.get("category_group"), "유형");
+  await listPosts(BOARD, { category_group: "유형" }); // 값 없이 그룹만은 보내지 않음
+  assert.equal(seen.searchParams.has("category_group"), false);
+});
+
+test("rating 범위 밖은 요청 없이 VALIDATION_ERROR(fieldErrors.rating)", async () => {
+  init({ projectId: PROJECT });
+  let called = false;
+  mockFetch(() => { called = true; return ok({ id: "x" }); });
+  for (const rating of [0, 6, 3.5]) {
+    const err = await createPost(BOARD, { title: "t", content: "c", rating }).catch((e) => e);
+    assert.equal(err.errorCode, "VALIDATION_ERROR");
+    assert.ok(err.fieldErrors.rating);
+  }
+  assert.equal(called, false);
+  await createPost(BOARD, { title: "t", content: "c", rating: 5 });
+  assert.equal(called, true);
+});
+
+test("categoryChips / validatePostInput — board_settings.categories 기준", () => {
+  const settings = { categories: [{ name: "유형", values: ["질문", "자유"] }, { name: "지역", values: ["서울"] }] };
+  const groups = categoryChips(settings);
+  assert.deepEqual(groups.map((g) => [g.group, g.chips.map((c) => c.value)]), [["유형", ["질문", "자유"]], ["지역", ["서울"]]]);
+  assert.deepEqual(groups[0].chips[0].filter, { category: "질문", category_group: "유형" });
+  assert.equal(isChipActive(groups[0].chips[0], { category: "질문" }), true);
+  assert.equal(isChipActive(groups[1].chips[0], { category: "서울", category_group: "유형" }), false);
+  assert.deepEqual(categoryChips(null), []);
+
+  validatePostInput({ categories: { 유형: ["자유"] } }, settings);
+  const err = (() => { try { validatePostInput({ categories: { 유형: ["리뷰"], 색상: ["빨강"] } }, settings); } catch (e) { return e; } })();
+  assert.deepEqual(Object.keys(err.fieldErrors).sort(), ["categories.색상", "categories.유형"]);
+});
@@ -0,0 +1,57 @@
+/** createClient 계약 — 인스턴스별 config·인증 캐시·이벤트 분리, 기본 인스턴스와 공존. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { init, createClient, listPosts, getProjectId } from "../dist/baas-core.esm.js";
+
+const A = "11111111-1111-1111-1111-111111111111";
+const B = "22222222-2222-2222-2222-222222222222";
+
+const seen = [];
+globalThis.fetch = async (url) => {
+  seen.push(url);
+  if (url.endsWith("/account/info")) {
+    return url.startsWith("/a")
+      ? { status: 200, json: async () => ({ result: "SUCCESS", data: { id: "ua" } }) }
+      : { status: 401, json: async () => ({ result: "FAIL", errorCode: "UNAUTHORIZED" }) };
+  }
+  if (url.endsWith("/expired")) return { status: 401, json: async () => ({ result: "FAIL", errorCode: "TOKEN_EXPIRED" }) };
+  return { status: 200, json: async () => ({ result: "SUCCESS", data: { items: [] } }) };
+};
+
+test("인스턴스별 projectId/baseUrl 로 경로 조립", async () => {
+  const a = createClient({ projectId: A, baseUrl: "/a" });
+  const b = createClient({ projectId: B, baseUrl: "/b/" });
+  seen.length = 0;
+  await Promise.all([a.listPosts("board"), b.listNoticePosts()]);
+  assert.ok(seen.includes(`/a/public/boards/${A}/board/posts`));
+  assert.ok(seen.includes(`/b/public/boards/notice/${B}/posts`));
+});
+
+test("인증 캐시는 인스턴스마다 독립", async () => {
+  const a = createClient({ projectId: A, baseUrl: "/a" });
+  const b = createClient({ projectId: B, baseUrl: "/b" });
+  const [sa, sb] = await Promise.all([a.checkAuth(), b.checkAuth()]);
+  assert.equal(sa.isLoggedIn, true);
+  assert.equal(sb.isLoggedIn, false);
+});
+
+test("session-expired 는 해당 인스턴스에만 전달", async () => {
+  const a = createClient({ projectId: A, baseUrl: "/a" });
+  const b = createClient({ projectId: B, baseUrl: "/b" });
+  const fired = [];
+  a.on("session-expired", () => fired.push("a"));
+  b.on("session-expired", () => fired.push("b"));
+  await Promise.all([a.checkAuth(), b.checkAuth()]); // a 만 로그인
+  await assert.rejects(() => a.request("/expired"));
+  await assert.rejects(() => b.request("/expired")); // 비로그인 인스턴스의 401 은 만료가 아니다
+  assert.deepEqual(fired, ["a"]);
+});
+
+test("기본 인스턴스(init + 최상위 함수)는 영향받지 않음", async () => {
+  init({ projectId: A, baseUrl: "/default" });
+  createClient({ projectId: B });
+  assert.equal(getProjectId(), A);
+  seen.length = 0;
+  await listPosts("board");
+  assert.deepEqual(seen, [`/default/public/boards/${A}/board/posts`]);
+});
@@ -9,6 +9,8 @@ import {
   login,
   checkAuth,
   clearAuthCache,
+  createPost,
+  on,
   getProjectId,
   BaasError,
   SDK_VERSION,
@@ -98,3 +100,65 @@ test("checkAuth — 네트워크/500 오류는 삼키지 않고 throw", async ()
   mockFetch(() => envelope(500, { result: "FAIL", message: "서버 오류" }));
   await assert.rejects(() => checkAuth(), (e) => e instanceof BaasError && e.status === 500);
 });
+
+test("회원 API 401 — session-expired 이벤트 + checkAuth 캐시 무효화", async () => {
+  init({ projectId: PROJECT });
+  clearAuthCache();
+  let calls = 0;
+  mockFetch(() => { calls++; return envelope(200, { result: "SUCCESS", data: { id: "1", user_id: "u", name: "n" } }); });
+  await checkAuth();
+
+  const events = [];
+  const off = on("session-expired", (e) => events.push(e));
+  mockFetch(() => envelope(401, { result: "FAIL", message: "로그인을 해주세요.", errorCode: "TOKEN_EXPIRED" }));
+  await assert.rejects(() => createPost("b1", { title: "t", content: "c" }), (e) => e.status === 401);
+  off();
+  assert.deepEqual(events, [{ path: `/boards/${PROJECT}/b1/posts`, errorCode: "TOKEN_EXPIRED" }]);
+
+  const state = await checkAuth(); // 캐시가 비워져 재조회 → 비로그인
+  assert.equal(state.isLoggedIn, false);
+});
+
+test("checkAuth 의 비로그인 401 은 session-expired 를 내지 않음", async () => {
+  init({ projectId: PROJECT });
+  clearAuthCache();
+  let fired = false;
+  const off = on("session-expired", () => { fired = true; });
+  mockFetch(() => envelope(401, { result: "FAIL", errorCode: "UNAUTHORIZED" }));
+  await checkAuth();
+  off();
+  assert.equal(fired, false);
+});
+
+test("비로그인 방문자의 401(require_login 게시글 등)은 session-expired 를 내지 않음", async () => {
+  init({ projectId: PROJECT });
+  clearAuthCache();
+  mockFetch(() => envelope(401, { result: "FAIL", errorCode: "UNAUTHORIZED" }));
+  assert.equal((await checkAuth()).isLoggedIn, false);
+  let fired = false;
+  const off = on("session-expired", () => { fired = true; });
+  await assert.rejects(() => createPost("b1", { title: "t", content: "c" }), (e) => e.status === 401);
+  off();
+  assert.equal(fired, false);
+});
+
+test("VALIDATION_ERROR — detail 을 fieldErrors(필드 → 메시지[])로 파싱", async () => {
+  init({ projectId: PROJECT });
+  mockFetch(() => envelope(422, {
+    result: "FAIL",
+    errorCode: "VALIDATION_ERROR",
+    message: "요청 값이 올바르지 않습니다.",
+    detail: [
+      { field: "user_pw", reason: "8자 이상이어야 합니다." },
+      { field: "user_pw", reason: "영문을 포함해야 합니다." },
+      { loc: ["body", "phone"], msg: "형식 오류" },
+    ],
+  }));
+  const err = await login("u", "pw").catch((e) => e);
+  assert.ok(err instanceof BaasError);
+  assert.equal(err.errorCode, "VALIDATION_ERROR");
+  assert.deepEqual(err.fieldErrors, {
+    user_pw: ["8자 이상이어야 합니다.", "영문을 포함해야 합니다."],
+    phone: ["형식 오류"],
+  });
+});
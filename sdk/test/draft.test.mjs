@@ -0,0 +1,76 @@
+/** 게시글 임시저장 — 프로젝트·게시판·글별 키, 빈 초안 삭제, 만료, draft-cleared 이벤트. */
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { init, on, saveDraft, loadDraft, clearDraft, listDrafts, DRAFT_MAX_AGE_MS } from "../dist/baas-core.esm.js";
+
+const PROJECT = "b59f841d-bfa3-4d63-8969-70420a4298f6";
+
+/** node 에는 localStorage 가 없다 — 브라우저 Storage 와 같은 모양의 메모리 구현 */
+function memoryStorage() {
+  const map = new Map();
+  return {
+    get length() { return map.size; },
+    key: (i) => [...map.keys()][i] ?? null,
+    getItem: (k) => (map.has(k) ? map.get(k) : null),
+    setItem: (k, v) => map.set(k, String(v)),
+    removeItem: (k) => map.delete(k),
+    clear: () => map.clear(),
+  };
+}
+
+beforeEach(() => {
+  globalThis.localStorage = memoryStorage();
+  init({ projectId: PROJECT });
+});
+
+test("게시판·글마다 따로 저장/복원, 목록은 최근 순", async () => {
+  saveDraft("b1", null, { title: "새 글", content: "<p>본문</p>", rating: 4, file_ids: [7] });
+  await new Promise((r) => setTimeout(r, 5));
+  saveDraft("b1", "post-1", { title: "수정 중" });
+  saveDraft("b2", null, { title: "다른 게시판" });
+
+  const d = loadDraft("b1");
+  assert.equal(d.title, "새 글");
+  assert.deepEqual(d.file_ids, [7]);
+  assert.equal(typeof d.saved_at, "number");
+  assert.equal(loadDraft("b1", "post-1").title, "수정 중");
+
+  const list = listDrafts("b1");
+  assert.deepEqual(list.map((e) => e.postId), ["post-1", null]);
+  assert.equal(listDrafts().length, 3);
+});
+
+test("빈 내용은 저장하지 않고 지운다, 만료·깨진 초안은 복원하지 않는다", () => {
+  saveDraft("b1", null, { title: "x" });
+  saveDraft("b1", null, { title: "  ", content: "" });
+  assert.equal(loadDraft("b1"), null);
+
+  const key = `baas-draft:${PROJECT}:b1:new`;
+  localStorage.setItem(key, JSON.stringify({ title: "old", saved_at: Date.now() - DRAFT_MAX_AGE_MS - 1 }));
+  assert.equal(loadDraft("b1"), null);
+  assert.equal(localStorage.getItem(key), null);
+  localStorage.setItem(key, "{broken");
+  assert.equal(loadDraft("b1"), null);
+});
+
+test("clearDraft — 삭제 + draft-cleared, boardId null 이면 그 글의 초안을 게시판 무관하게", () => {
+  const events = [];
+  const off = on("draft-cleared", (e) => events.push(e));
+  saveDraft("b1", null, { title: "a" });
+  saveDraft("b1", "post-1", { title: "b" });
+  clearDraft("b1");
+  assert.equal(loadDraft("b1"), null);
+  assert.ok(loadDraft("b1", "post-1"));
+
+  clearDraft(null, "post-1");
+  assert.equal(loadDraft("b1", "post-1"), null);
+  off();
+  assert.deepEqual(events, [{ boardId: "b1", postId: null }, { boardId: null, postId: "post-1" }]);
+});
+
+test("storage 를 못 쓰는 환경에선 조용히 무시", () => {
+  delete globalThis.localStorage;
+  assert.equal(saveDraft("b1", null, { title: "a" }), false);
+  assert.equal(loadDraft("b1"), null);
+  assert.deepEqual(listDrafts(), []);
+});
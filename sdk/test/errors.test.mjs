@@ -0,0 +1,28 @@
+/** 에러 카탈로그 계약 — isBaasError 가드, 코드/상태 → 카탈로그 문구, 로케일 교체. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BaasError, isBaasError, getErrorMessage, setErrorMessages, errorCatalogs } from "../dist/baas-core.esm.js";
+
+test("isBaasError — 코드 지정 시 코드까지 일치해야 true", () => {
+  const e = new BaasError("x", "FORBIDDEN", 403);
+  assert.equal(isBaasError(e), true);
+  assert.equal(isBaasError(e, "FORBIDDEN"), true);
+  assert.equal(isBaasError(e, "NOT_FOUND"), false);
+  assert.equal(isBaasError(new Error("x")), false);
+});
+
+test("getErrorMessage — 서버 원문 대신 카탈로그 문구(기본 ko)", () => {
+  setErrorMessages("ko");
+  assert.equal(getErrorMessage(new BaasError("raw server text", "INVALID_USER", 400)), errorCatalogs.ko.INVALID_USER);
+  assert.equal(getErrorMessage(new BaasError("요청 실패 (HTTP 503)", null, 503)), errorCatalogs.ko.INTERNAL_SERVER_ERROR);
+  assert.equal(getErrorMessage(new BaasError("x", null, 404)), errorCatalogs.ko.NOT_FOUND);
+  assert.equal(getErrorMessage(new BaasError("x", "SOMETHING_NEW", 400)), errorCatalogs.ko.default);
+  assert.equal(getErrorMessage(new TypeError("Failed to fetch")), errorCatalogs.ko.network);
+});
+
+test("setErrorMessages — en 전환 + 앱 고유 문구 override", () => {
+  setErrorMessages("en", { ALREADY_EXISTS: "That ID is taken." });
+  assert.equal(getErrorMessage(new BaasError("x", "TIMEOUT", 0)), errorCatalogs.en.TIMEOUT);
+  assert.equal(getErrorMessage(new BaasError("x", "ALREADY_EXISTS", 409)), "That ID is taken.");
+  setErrorMessages("ko");
+});
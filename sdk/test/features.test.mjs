@@ -2,7 +2,8 @@
 import { test } from "node:test";
 import assert from "node:assert/strict";
 import {
-  init, registerRecipient, listNoticePosts, listFaqPosts, listComments, createComment,
+  init, registerRecipient, listNoticePosts, listFaqPosts, listComments, listCommentThreads, createComment,
+  buildCommentTree, countComments,
   listSurveys, submitSurveyResponse, listTargets, createBooking, prepareOrder,
   listProducts, getStoreConfig, changePassword,
 } from "../dist/baas-core.esm.js";
@@ -34,6 +35,23 @@ test("comments — 공개 읽기 / 회원 쓰기 경로", async () => {
   await createComment("p1", { content: "hi" });
   assert.match(last.url, /\/boards\/posts\/p1\/comments$/);
   assert.equal(last.method, "POST");
+  await createComment("p1", { content: "re", parent_id: "c1" });
+  assert.deepEqual(last.body, { content: "re", parent_id: "c1" });
+  await listComments("p2");
+  assert.match(last.url, /\?sort=latest$/); // 기존 기본값 유지
+  await listCommentThreads("p3");
+  assert.match(last.url, /\/public\/boards\/posts\/p3\/comments\?sort=oldest$/); // 서버 기본 정렬
+});
+
+test("buildCommentTree — 루트/대댓글 정규화 + countComments", () => {
+  const tree = buildCommentTree([
+    { id: "a", content: "1", replies: [{ id: "a1", parent_id: "a", content: "1-1" }] },
+    { id: "b", content: "2" },
+    { id: "b1", parent_id: "b", content: "2-1" },
+    { id: "x1", parent_id: "gone", content: "부모 없음" },
+  ]);
+  assert.deepEqual(tree.map((t) => [t.id, t.replies.map((r) => r.id)]), [["a", ["a1"]], ["b", ["b1"]], ["x1", []]]);
+  assert.equal(countComments(tree), 5);
 });
 
 test("survey — 목록/응답 제출", async () => {
@@ -0,0 +1,336 @@
+/**
+ * React 훅 동작 — react-test-renderer 로 host React 를 주입해 빌드 산출물(dist)을 직접 검증.
+ * useAsync(늦게 온 결과 버리기·언마운트 시 조회 취소)와 선언형 조회 훅(자동 조회·인자 변경·refetch),
+ * 낙관적 갱신(게시글 숨김·댓글 작성), 가입 폼 사전 검증.
+ */
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import React from "react";
+import TestRenderer from "react-test-renderer";
+
+const { act } = TestRenderer;
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+globalThis.window ??= globalThis;
+window.__BAAS_HOST__ = { React };
+const { init, invalidateQueries, useBoard, useBoardPosts, usePost, useComments, useSignup } = await import("../dist/baas-react.esm.js");
+
+const PROJECT = "b59f841d-bfa3-4d63-8969-70420a4298f6";
+
+/** 요청마다 응답 시점을 테스트가 정한다. 실제 fetch 처럼 signal 이 abort 되면 AbortError 로 거절 */
+let requests = [];
+function deferredFetch() {
+  requests = [];
+  globalThis.fetch = (url, opts) =>
+    new Promise((resolve, reject) => {
+      const req = {
+        url,
+        signal: opts.signal,
+        respond: (data) => resolve({ status: 200, json: async () => ({ result: "SUCCESS", data }) }),
+        fail: (status = 403) => resolve({ status, json: async () => ({ result: "FAIL", errorCode: "FORBIDDEN" }) }),
+      };
+      opts.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+      requests.push(req);
+    });
+}
+const find = (part) => requests.filter((r) => r.url.includes(part));
+
+/** 훅을 Probe 컴포넌트에서 렌더 — result.current 가 최신 반환값 */
+function renderHook(hook, props) {
+  const result = { current: null };
+  function Probe(p) {
+    result.current = hook(p);
+    return null;
+  }
+  let renderer;
+  act(() => {
+    renderer = TestRenderer.create(React.createElement(Probe, props));
+  });
+  return {
+    result,
+    rerender: (next) => act(() => renderer.update(React.createElement(Probe, next))),
+    unmount: () => act(() => renderer.unmount()),
+  };
+}
+/** 응답 처리(마이크로태스크 체인)까지 act 안에서 흘려보낸다 */
+const flush = () => act(() => new Promise((r) => setTimeout(r, 0)));
+
+beforeEach(() => {
+  init({ projectId: PROJECT, baseUrl: "https://api.test" });
+  invalidateQueries();
+  deferredFetch();
+});
+
+test("useAsync — 같은 동작을 다시 부르면 이전 결과는 늦게 와도 버린다", async () => {
+  const { result } = renderHook(() => useBoard());
+  let first, second;
+  act(() => {
+    first = result.current.fetchPosts("board-a");
+  });
+  act(() => {
+    second = result.current.fetchPosts("board-b");
+  });
+  await flush();
+  find("/board-b/").at(0).respond({ items: [{ id: "b1" }] });
+  await flush();
+  find("/board-a/").at(0).respond({ items: [{ id: "a1" }] });
+  await flush();
+
+  assert.equal(await first, null); // 취소된 조회 — 실패가 아니다
+  assert.deepEqual((await second).items, [{ id: "b1" }]);
+  assert.deepEqual(result.current.posts.items, [{ id: "b1" }]);
+  assert.equal(result.current.loading, false);
+  assert.equal(result.current.error, null);
+});
+
+test("useAsync — 언마운트하면 진행 중 조회를 abort 하고 상태를 건드리지 않는다", async () => {
+  const { result, unmount } = renderHook(() => useBoard());
+  let pending;
+  act(() => {
+    pending = result.current.fetchPost("p1");
+  });
+  await flush();
+  const [req] = find("/posts/p1");
+  assert.equal(req.signal.aborted, false);
+  unmount();
+  assert.equal(req.signal.aborted, true);
+  assert.equal(await pending, null);
+});
+
+test("useAsync — 실패는 동작별 error 로, 다음 호출에서 해제", async () => {
+  globalThis.fetch = async () => ({ status: 500, json: async () => ({ result: "FAIL", message: "서버 오류" }) });
+  const { result } = renderHook(() => useBoard());
+  await act(() => result.current.fetchPost("p1"));
+  assert.equal(result.current.error.message, "서버 오류");
+  assert.equal(result.current.actions.fetchPost.error.message, "서버 오류");
+
+  globalThis.fetch = async () => ({ status: 200, json: async () => ({ result: "SUCCESS", data: { id: "p1" } }) });
+  await act(() => result.current.fetchPost("p1"));
+  assert.equal(result.current.error, null);
+  assert.equal(result.current.post.id, "p1");
+});
+
+test("선언형 훅 — 마운트 시 자동 조회, null 인자면 대기", async () => {
+  const { result } = renderHook(({ id }) => useBoardPosts(id), { id: "board-a" });
+  assert.equal(result.current.loading, true);
+  assert.equal(find("/board-a/").length, 1);
+  find("/board-a/")[0].respond({ items: [{ id: "a1" }] });
+  await flush();
+  assert.equal(result.current.loading, false);
+  assert.deepEqual(result.current.data.items, [{ id: "a1" }]);
+
+  const idle = renderHook(() => usePost(null));
+  assert.equal(idle.result.current.loading, false);
+  assert.equal(idle.result.current.data, null);
+  assert.equal(find("/posts/").length, 0);
+});
+
+test("선언형 훅 — 인자가 바뀌면 이전 응답은 버리고 이전 data 는 로딩 중 유지", async () => {
+  const { result, rerender } = renderHook(({ id }) => useBoardPosts(id), { id: "board-a" });
+  find("/board-a/")[0].respond({ items: [{ id: "a1" }] });
+  await flush();
+
+  rerender({ id: "board-b" });
+  assert.equal(result.current.loading, true);
+  assert.deepEqual(result.current.data.items, [{ id: "a1" }]); // 깜빡이지 않게
+
+  rerender({ id: "board-c" });
+  find("/board-c/")[0].respond({ items: [{ id: "c1" }] });
+  await flush();
+  find("/board-b/")[0].respond({ items: [{ id: "b1" }] }); // 늦게 온 이전 인자의 응답
+  await flush();
+  assert.deepEqual(result.current.data.items, [{ id: "c1" }]);
+  assert.equal(result.current.loading, false);
+});
+
+test("선언형 훅 — 재마운트는 캐시, refetch 는 캐시를 무시하고 재조회", async () => {
+  const first = renderHook(() => useBoardPosts("board-a"));
+  find("/board-a/")[0].respond({ items: [{ id: "a1" }] });
+  await flush();
+  first.unmount();
+
+  const { result } = renderHook(() => useBoardPosts("board-a"));
+  await flush();
+  assert.equal(find("/board-a/").length, 1); // 10초 안 — 캐시
+  assert.deepEqual(result.current.data.items, [{ id: "a1" }]);
+
+  act(() => result.current.refetch());
+  assert.equal(find("/board-a/").length, 2);
+  find("/board-a/")[1].respond({ items: [{ id: "a2" }] });
+  await flush();
+  assert.deepEqual(result.current.data.items, [{ id: "a2" }]);
+});
+
+test("선언형 훅 — 언마운트하면 진행 중 조회를 취소(usePost 는 요청 자체를 abort)", async () => {
+  const { unmount } = renderHook(() => usePost("p9"));
+  const [req] = find("/posts/p9");
+  unmount();
+  assert.equal(req.signal.aborted, true);
+});
+
+test("useBoard.setPostHidden — 실패하면 되돌리되, 뒤에 겹친 토글의 값은 덮지 않는다", async () => {
+  const { result } = renderHook(() => useBoard());
+  act(() => {
+    result.current.fetchPosts("board-a");
+  });
+  await flush();
+  find("/board-a/")[0].respond({ items: [{ id: "p1", is_hidden: false }] });
+  await flush();
+  const hidden = () => result.current.posts.items[0].is_hidden;
+
+  let a, b;
+  act(() => {
+    a = result.current.setPostHidden("p1", true);
+  });
+  act(() => {
+    b = result.current.setPostHidden("p1", true); // 다른 화면에서 같은 글을 또 숨김
+  });
+  const [reqA, reqB] = find("/p1/hidden");
+  reqA.fail(); // 앞의 토글 실패 — 뒤의 토글이 쓴 값이므로 그대로 둔다
+  await flush();
+  assert.equal(hidden(), true);
+  reqB.respond({ id: "p1", is_hidden: true });
+  await flush();
+  assert.equal(await a, null);
+  assert.equal(hidden(), true);
+
+  let c;
+  act(() => {
+    c = result.current.setPostHidden("p1", false);
+  });
+  assert.equal(hidden(), false);
+  find("/p1/hidden")[2].fail(); // 마지막 쓰기의 실패 — 이 호출 전 값으로
+  await flush();
+  assert.equal(await c, null);
+  assert.equal(hidden(), true);
+});
+
+test("useComments.addComment — 요청 중 목록이 바뀌어도 서버 댓글은 한 번만 보인다", async () => {
+  const { result } = renderHook(() => useComments());
+  const lists = () => requests.filter((r) => r.url.includes("/comments?sort="));
+  const creates = () => requests.filter((r) => r.url.endsWith("/comments"));
+  const ids = () => result.current.comments.map((c) => c.id);
+  act(() => {
+    result.current.fetchComments("p1");
+  });
+  await flush();
+  lists()[0].respond({ items: [{ id: "c1", content: "a", replies: [] }], total_count: 1 });
+  await flush();
+
+  // 작성 중 정렬 전환 — 새 목록이 임시 항목을 대체했고 새 댓글은 아직 없다
+  let added;
+  act(() => {
+    added = result.current.addComment("p1", "b");
+  });
+  assert.equal(result.current.comments[1].pending, true);
+  act(() => {
+    result.current.changeSort("newest");
+  });
+  await flush();
+  lists()[1].respond({ items: [{ id: "c1", content: "a", replies: [] }], total_count: 1 });
+  await flush();
+  assert.deepEqual(ids(), ["c1"]);
+  creates()[0].respond({ id: "c2", content: "b", parent_id: null });
+  await flush();
+  assert.equal((await added).id, "c2");
+  assert.deepEqual(ids(), ["c2", "c1"]); // newest — 앞에
+  assert.equal(result.current.total, 2);
+
+  // 새 목록에 이미 서버 댓글이 있으면 다시 넣지 않는다
+  act(() => {
+    added = result.current.addComment("p1", "c");
+  });
+  act(() => {
+    result.current.changeSort("oldest");
+  });
+  await flush();
+  lists()[2].respond({ items: [{ id: "c1", content: "a" }, { id: "c2", content: "b" }, { id: "c3", content: "c" }], total_count: 3 });
+  await flush();
+  creates()[1].respond({ id: "c3", content: "c", parent_id: null });
+  await flush();
+  assert.deepEqual(ids(), ["c1", "c2", "c3"]);
+  assert.equal(result.current.total, 3);
+});
+
+test("useSignup — 잘못된 입력은 요청 없이 fieldErrors, 통과하면 확인 칸 빼고 전화번호는 표기 형식으로", async () => {
+  const { result } = renderHook(() => useSignup({ requireAgreements: true }));
+  let res;
+  await act(async () => {
+    res = await result.current.signup("kim@example.com", "short", "김철수", "01012345678", { terms_agreed: true });
+  });
+  assert.equal(res, null);
+  assert.deepEqual(Object.keys(result.current.fieldErrors).sort(), ["privacy_agreed", "user_pw"]);
+  assert.equal(result.current.error.errorCode, "VALIDATION_ERROR");
+  await act(async () => {
+    res = await result.current.signup("kim@example.com", "password1", "김철수", "010-1234-567890", {
+      terms_agreed: true,
+      privacy_agreed: true,
+    });
+  });
+  assert.equal(res, null); // 11자리로 잘라 보내지 않는다
+  assert.deepEqual(Object.keys(result.current.fieldErrors), ["phone"]);
+  assert.equal(requests.length, 0);
+
+  const sent = [];
+  globalThis.fetch = async (url, opts) => {
+    sent.push(JSON.parse(opts.body));
+    return { status: 200, json: async () => ({ result: "SUCCESS", data: { id: "u1" } }) };
+  };
+  await act(async () => {
+    res = await result.current.signup(" kim@example.com ", "password1", "김철수", "010 1234 5678", {
+      user_pw_confirm: "password1",
+      terms_agreed: true,
+      privacy_agreed: true,
+    });
+  });
+  assert.equal(res.id, "u1");
+  assert.deepEqual(sent, [
+    {
+      user_id: "kim@example.com",
+      user_pw: "password1",
+      name: "김철수",
+      phone: "010-1234-5678",
+      project_id: PROJECT,
+      terms_agreed: true,
+      privacy_agreed: true,
+    },
+  ]);
+  assert.deepEqual(result.current.fieldErrors, {});
+});
+
+test("useComments.setCommentHidden — 실패하면 호출 전 값으로, 뒤에 겹친 토글의 값은 덮지 않는다", async () => {
+  const { result } = renderHook(() => useComments());
+  act(() => {
+    result.current.fetchComments("p1");
+  });
+  await flush();
+  requests[0].respond({ items: [{ id: "c1", content: "a", is_hidden: true, replies: [] }], total_count: 1 });
+  await flush();
+  const hidden = () => result.current.comments[0].is_hidden;
+  const toggles = () => requests.filter((r) => r.url.includes("/c1/hidden"));
+
+  let a, b;
+  act(() => {
+    a = result.current.setCommentHidden("c1", true); // 이미 숨긴 댓글을 다시 숨김
+  });
+  act(() => {
+    b = result.current.setCommentHidden("c1", true);
+  });
+  toggles()[0].fail(); // 앞의 토글 실패 — 뒤의 토글이 쓴 값이므로 그대로 둔다
+  await flush();
+  assert.equal(await a, null);
+  assert.equal(hidden(), true);
+  toggles()[1].fail(); // 마지막 쓰기의 실패 — 호출 전 값(숨김)으로, 보이게 뒤집지 않는다
+  await flush();
+  assert.equal(await b, null);
+  assert.equal(hidden(), true);
+
+  let c;
+  act(() => {
+    c = result.current.setCommentHidden("c1", false);
+  });
+  assert.equal(hidden(), false);
+  toggles()[2].fail();
+  await flush();
+  assert.equal(await c, null);
+  assert.equal(hidden(), true);
+});
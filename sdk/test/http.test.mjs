@@ -0,0 +1,140 @@
+/** transport 정책 계약 — 재시도/백오프/Retry-After · 타임아웃/취소 · 미들웨어. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { init, request, use, listPosts, confirmOrder, BaasError } from "../dist/baas-core.esm.js";
+
+const PROJECT = "b59f841d-bfa3-4d63-8969-70420a4298f6";
+
+function mockFetch(handler) {
+  globalThis.fetch = async (url, opts) => handler(url, opts);
+}
+function res(status, body, headers = {}) {
+  return { status, headers: new Headers(headers), json: async () => body };
+}
+const ok = (data) => res(200, { result: "SUCCESS", data });
+
+test("retry — GET 의 503 은 재시도 후 성공", async () => {
+  init({ projectId: PROJECT, retry: { baseDelayMs: 0 } });
+  let calls = 0;
+  mockFetch(() => (++calls < 3 ? res(503, null) : ok({ items: [] })));
+  const data = await listPosts("b1");
+  assert.equal(calls, 3);
+  assert.deepEqual(data.items, []);
+});
+
+test("retry — 네트워크 오류(fetch reject)도 GET 은 재시도", async () => {
+  init({ projectId: PROJECT, retry: { baseDelayMs: 0 } });
+  let calls = 0;
+  mockFetch(() => { if (++calls === 1) throw new TypeError("Failed to fetch"); return ok(1); });
+  assert.equal(await request("/x"), 1);
+  assert.equal(calls, 2);
+});
+
+test("retry — 횟수 소진 시 마지막 응답으로 BaasError", async () => {
+  init({ projectId: PROJECT, retry: { baseDelayMs: 0, retries: 1 } });
+  let calls = 0;
+  mockFetch(() => { calls++; return res(502, { result: "FAIL", message: "bad gateway" }); });
+  await assert.rejects(() => request("/x"), (e) => e instanceof BaasError && e.status === 502);
+  assert.equal(calls, 2);
+});
+
+test("retry — 비멱등 쓰기(confirmOrder)는 기본 재시도 안 함, opt-in 시 재시도", async () => {
+  init({ projectId: PROJECT, retry: { baseDelayMs: 0 } });
+  let calls = 0;
+  mockFetch(() => (++calls === 1 ? res(503, null) : ok({ id: "o1" })));
+  const order = { order_no: "n", payment_key: "k", amount: 1, product_id: "p", quantity: 1 };
+  await assert.rejects(() => confirmOrder(order), (e) => e.status === 503);
+  assert.equal(calls, 1);
+
+  calls = 0;
+  const data = await confirmOrder(order, { retry: { retryWrites: true } });
+  assert.equal(calls, 2);
+  assert.equal(data.id, "o1");
+});
+
+test("retry — 429 Retry-After 를 지연으로 사용, 상한 초과면 즉시 실패", async () => {
+  init({ projectId: PROJECT, retry: { baseDelayMs: 0, maxDelayMs: 1000 } });
+  let calls = 0;
+  mockFetch(() => (++calls === 1 ? res(429, null, { "Retry-After": "0" }) : ok(true)));
+  assert.equal(await request("/x"), true);
+  assert.equal(calls, 2);
+
+  calls = 0;
+  mockFetch(() => { calls++; return res(429, { result: "FAIL", errorCode: "RATE_LIMITED" }, { "Retry-After": "120" }); });
+  await assert.rejects(() => request("/x"), (e) => e.status === 429);
+  assert.equal(calls, 1);
+});
+
+test("retry — 요청별 retry:false 는 전역 정책보다 우선", async () => {
+  init({ projectId: PROJECT, retry: { baseDelayMs: 0 } });
+  let calls = 0;
+  mockFetch(() => { calls++; return res(503, null); });
+  await assert.rejects(() => request("/x", { retry: false }));
+  assert.equal(calls, 1);
+});
+
+test("timeout — timeoutMs 초과 시 BaasError(TIMEOUT, status 0)", async () => {
+  init({ projectId: PROJECT });
+  mockFetch((_url, opts) => new Promise((_r, reject) => {
+    opts.signal.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+  }));
+  await assert.rejects(
+    () => listPosts("b-timeout", {}, { timeoutMs: 10, retry: false }),
+    (e) => e instanceof BaasError && e.errorCode === "TIMEOUT" && e.status === 0
+  );
+});
+
+test("abort — 호출부 signal 취소는 ABORTED 로 구분", async () => {
+  init({ projectId: PROJECT });
+  mockFetch((_url, opts) => new Promise((_r, reject) => {
+    opts.signal.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+  }));
+  const ctrl = new AbortController();
+  const p = listPosts("b1", { keyword: "a" }, { signal: ctrl.signal });
+  ctrl.abort();
+  await assert.rejects(() => p, (e) => e instanceof BaasError && e.errorCode === "ABORTED");
+});
+
+test("abort — 이미 취소된 signal 은 fetch 하지 않음, 백오프 대기 중 취소도 즉시 reject", async () => {
+  init({ projectId: PROJECT, retry: { baseDelayMs: 10_000, maxDelayMs: 10_000 } });
+  let calls = 0;
+  mockFetch(() => { calls++; return res(503, null); });
+  const ctrl = new AbortController();
+  ctrl.abort();
+  await assert.rejects(() => request("/x", { signal: ctrl.signal }), (e) => e.errorCode === "ABORTED");
+  assert.equal(calls, 0);
+
+  const ctrl2 = new AbortController();
+  const p = request("/x", { signal: ctrl2.signal });
+  setTimeout(() => ctrl2.abort(), 5);
+  await assert.rejects(() => p, (e) => e.errorCode === "ABORTED");
+  assert.equal(calls, 1);
+});
+
+test("middleware — onRequest 로 헤더 추가, onResponse 로 data 교체", async () => {
+  let seen;
+  init({
+    projectId: PROJECT,
+    middleware: [{ onRequest: (ctx) => { ctx.headers["X-Trace-Id"] = "t-1"; } }],
+  });
+  const off = use({
+    onRequest: (ctx) => { ctx.meta.order = ["use"]; },
+    onResponse: (data, ctx) => ({ ...data, path: ctx.path, order: ctx.meta.order }),
+  });
+  mockFetch((_url, opts) => { seen = opts.headers; return ok({ id: "p1" }); });
+  const data = await request("/public/boards/posts/p1");
+  off();
+  assert.equal(seen["X-Trace-Id"], "t-1");
+  assert.equal(data.path, "/public/boards/posts/p1");
+  assert.deepEqual(data.order, ["use"]);
+});
+
+test("middleware — onError 로 에러 재작성, 해제 후엔 미적용", async () => {
+  init({ projectId: PROJECT });
+  class AppError extends Error {}
+  const off = use({ onError: (e) => new AppError(`wrapped:${e.errorCode}`) });
+  mockFetch(() => res(400, { result: "FAIL", errorCode: "BAD_REQUEST", message: "x" }));
+  await assert.rejects(() => request("/x"), (e) => e instanceof AppError && e.message === "wrapped:BAD_REQUEST");
+  off();
+  await assert.rejects(() => request("/x"), (e) => e instanceof BaasError);
+});
@@ -0,0 +1,58 @@
+/** 공지 읽음 표시 — id+created_at 기록, 오래된 공지 제외, 모두 읽음, notice-read 이벤트. */
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { init, on, isNoticeUnread, unreadNoticeCount, markNoticeRead, markAllNoticesRead } from "../dist/baas-core.esm.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const ago = (ms) => new Date(Date.now() - ms).toISOString();
+
+function memoryStorage() {
+  const map = new Map();
+  return {
+    get length() { return map.size; },
+    key: (i) => [...map.keys()][i] ?? null,
+    getItem: (k) => (map.has(k) ? map.get(k) : null),
+    setItem: (k, v) => map.set(k, String(v)),
+    removeItem: (k) => map.delete(k),
+  };
+}
+
+beforeEach(() => {
+  globalThis.localStorage = memoryStorage();
+  init({ projectId: "b59f841d-bfa3-4d63-8969-70420a4298f6" });
+});
+
+test("읽은 공지는 빠지고, 같은 id 라도 다시 게시(created_at 변경)되면 새 글", () => {
+  const a = { id: "n1", created_at: ago(DAY) };
+  const b = { id: "n2", created_at: ago(2 * DAY) };
+  assert.equal(unreadNoticeCount([a, b]), 2);
+  markNoticeRead(a);
+  assert.equal(isNoticeUnread(a), false);
+  assert.equal(unreadNoticeCount([a, b]), 1);
+  assert.equal(isNoticeUnread({ id: "n1", created_at: ago(1000) }), true);
+});
+
+test("newWithinDays 보다 오래된 공지는 새 글이 아니다", () => {
+  const old = { id: "n1", created_at: ago(40 * DAY) };
+  assert.equal(isNoticeUnread(old), false);
+  assert.equal(isNoticeUnread(old, { newWithinDays: 60 }), true);
+});
+
+test("모두 읽음 — 이후에 올라온 공지만 새 글, 변경 시 notice-read 이벤트", async () => {
+  const events = [];
+  const off = on("notice-read", () => events.push(1));
+  const before = { id: "n1", created_at: ago(DAY) };
+  markAllNoticesRead();
+  await new Promise((r) => setTimeout(r, 5));
+  const after = { id: "n2", created_at: new Date().toISOString() };
+  assert.equal(unreadNoticeCount([before, after]), 1);
+  markNoticeRead([after]);
+  assert.equal(unreadNoticeCount([before, after]), 0);
+  off();
+  assert.equal(events.length, 2);
+});
+
+test("기록할 수 없는 환경에선 배지를 띄우지 않는다", () => {
+  delete globalThis.localStorage;
+  assert.equal(unreadNoticeCount([{ id: "n1", created_at: ago(DAY) }]), 0);
+});
@@ -0,0 +1,86 @@
+/** 목록 페이지 계산 — offset 계산 / total vs total_count / 무한 스크롤 누적·중복 제거·reset. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fetchPage, createInfiniteList, pageCountOf } from "../dist/baas-core.esm.js";
+
+/** n 개짜리 가짜 목록 — 받은 옵션을 기록한다 */
+function source(n, { totalKey = "total_count" } = {}) {
+  const calls = [];
+  const all = Array.from({ length: n }, (_, i) => ({ id: `p${i + 1}` }));
+  const fn = async (o) => {
+    calls.push(o);
+    const items = all.slice(o.offset, o.offset + o.limit);
+    return totalKey ? { items, [totalKey]: n } : { items };
+  };
+  return { fn, calls, all };
+}
+
+test("fetchPage: page → offset/limit, 필터 유지, pageCount 계산", async () => {
+  const { fn, calls } = source(45);
+  const p = await fetchPage(fn, 3, { pageSize: 20, filters: { keyword: "a", category: "공지" } });
+  assert.deepEqual(calls[0], { keyword: "a", category: "공지", offset: 40, limit: 20 });
+  assert.equal(p.items.length, 5);
+  assert.equal(p.total, 45);
+  assert.equal(p.pageCount, 3);
+  assert.equal(p.hasMore, false);
+  assert.equal((await fetchPage(fn, 0, { pageSize: 20 })).page, 1); // 1 미만은 1페이지
+});
+
+test("fetchPage: 정적 게시판의 total 도 인식, 전체 수가 없으면 꽉 찬 페이지로 hasMore 추정", async () => {
+  const statics = source(20, { totalKey: "total" });
+  assert.equal((await fetchPage(statics.fn, 1, { pageSize: 10 })).pageCount, 2);
+
+  const unknown = source(20, { totalKey: null });
+  const first = await fetchPage(unknown.fn, 2, { pageSize: 10 });
+  assert.equal(first.total, null);
+  assert.equal(first.pageCount, null);
+  assert.equal(first.hasMore, true);
+  assert.equal((await fetchPage(unknown.fn, 3, { pageSize: 10 })).hasMore, false);
+  assert.equal(pageCountOf(0, 10), 1); // 빈 목록도 1페이지
+});
+
+test("createInfiniteList: 누적 + 끝나면 더 부르지 않음 + 동시 호출 합치기", async () => {
+  const { fn, calls } = source(25);
+  const list = createInfiniteList(fn, { pageSize: 10 });
+  const [a, b] = await Promise.all([list.loadMore(), list.loadMore()]);
+  assert.equal(a, b);
+  assert.equal(calls.length, 1);
+  await list.loadMore();
+  const last = await list.loadMore();
+  assert.equal(last.items.length, 25);
+  assert.equal(last.pages, 3);
+  assert.equal(last.hasMore, false);
+  await list.loadMore();
+  assert.equal(calls.length, 3);
+});
+
+test("createInfiniteList: 페이지 사이 새 글로 밀린 중복은 id 로 제거", async () => {
+  let shifted = false;
+  const fn = async (o) => {
+    const ids = shifted ? ["p0", "p1", "p2", "p3"] : ["p1", "p2", "p3"];
+    shifted = true;
+    return { items: ids.slice(o.offset, o.offset + o.limit).map((id) => ({ id })), total_count: 4 };
+  };
+  const list = createInfiniteList(fn, { pageSize: 2 });
+  await list.loadMore(); // p1, p2
+  const s = await list.loadMore(); // 새 글 p0 때문에 p2, p3 → p2 중복
+  assert.deepEqual(s.items.map((i) => i.id), ["p1", "p2", "p3"]);
+});
+
+test("createInfiniteList: reset 뒤 늦게 온 이전 응답은 버린다", async () => {
+  let release;
+  const gate = new Promise((r) => (release = r));
+  const { fn } = source(5);
+  const slow = async (o) => {
+    await gate;
+    return fn(o);
+  };
+  const list = createInfiniteList(slow, { pageSize: 2 });
+  const stale = list.loadMore();
+  list.reset();
+  release();
+  await stale;
+  assert.equal(list.state().pages, 0);
+  assert.deepEqual(list.state().items, []);
+  assert.equal((await list.loadMore()).items.length, 2);
+});
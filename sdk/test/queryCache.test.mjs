@@ -0,0 +1,162 @@
+/** 공개 조회 캐시 — 합치기 / TTL / stale-while-revalidate / 쓰기 후 무효화. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createClient, fetchPage } from "../dist/baas-core.esm.js";
+
+const BOARD = "board-uuid-123";
+
+function ok(data) {
+  return { status: 200, json: async () => ({ result: "SUCCESS", data }) };
+}
+/** 테스트마다 새 인스턴스 — 캐시가 테스트 사이에 새지 않게 */
+function setup(handler) {
+  const calls = [];
+  globalThis.fetch = async (url, opts) => {
+    calls.push({ url, method: opts.method });
+    return handler(url, opts);
+  };
+  return { client: createClient({ projectId: "cache-proj", baseUrl: "https://api.test" }), calls };
+}
+
+test("같은 키 동시 요청은 1회로 합치고, TTL 안에서는 캐시 반환", async () => {
+  const { client, calls } = setup(() => ok({ items: [], total: 0 }));
+  const [a, b] = await Promise.all([client.listPosts(BOARD), client.listPosts(BOARD)]);
+  assert.equal(a, b);
+  await client.listPosts(BOARD);
+  assert.equal(calls.length, 1);
+  await client.listPosts(BOARD, { keyword: "x" }); // 쿼리가 다르면 다른 키
+  assert.equal(calls.length, 2);
+});
+
+test("force / cache:false 는 네트워크로 간다", async () => {
+  const { client, calls } = setup(() => ok({ id: "p1" }));
+  await client.getPost("p1", { cache: {} });
+  await client.getPost("p1", { cache: { force: true } });
+  await client.getPost("p1", { cache: false });
+  await client.getPost("p1", { cache: {} }); // force 결과가 캐시에 반영됨
+  assert.equal(calls.length, 3);
+});
+
+test("게시글·공지·FAQ 상세는 opt-in 없이는 캐시하지 않는다(조회수·숨김 글)", async () => {
+  const { client, calls } = setup(() => ok({ id: "p1" }));
+  await client.getPost("p1");
+  await client.getPost("p1");
+  await client.getNoticePost("n1");
+  await client.getNoticePost("n1");
+  await client.getFaqPost("f1");
+  await client.getFaqPost("f1");
+  assert.equal(calls.length, 6);
+  await client.getNoticePost("n1", { cache: {} });
+  await client.getNoticePost("n1", { cache: {} });
+  assert.equal(calls.length, 7);
+});
+
+test("항목 수 상한(기본 200)을 넘으면 가장 오래된 키부터 버린다", async () => {
+  const { client, calls } = setup(() => ok({ items: [] }));
+  await client.listPosts(BOARD, { keyword: "k0" });
+  for (let i = 1; i <= 200; i++) await client.listPosts(BOARD, { keyword: `k${i}` });
+  assert.equal(calls.length, 201);
+  await client.listPosts(BOARD, { keyword: "k200" }); // 최근 키는 남아 있다
+  assert.equal(calls.length, 201);
+  await client.listPosts(BOARD, { keyword: "k0" }); // 가장 오래된 키는 밀려났다
+  assert.equal(calls.length, 202);
+});
+
+test("오래된 캐시는 즉시 반환하고 백그라운드 재조회 결과를 onUpdate 로 전달", async () => {
+  let n = 0;
+  const { client, calls } = setup(() => ok({ items: [{ id: `v${++n}` }] }));
+  await client.listNoticePosts();
+  const updated = new Promise((resolve) => {
+    client.listNoticePosts({}, { cache: { ttlMs: 0, onUpdate: resolve } }).then((stale) => {
+      assert.equal(stale.items[0].id, "v1");
+    });
+  });
+  assert.equal((await updated).items[0].id, "v2");
+  assert.equal(calls.length, 2);
+  assert.equal((await client.listNoticePosts()).items[0].id, "v2");
+});
+
+test("createPost 후 해당 게시판 목록만 무효화", async () => {
+  const { client, calls } = setup((_url, opts) => ok(opts.method === "POST" ? { id: "new" } : { items: [] }));
+  await client.listPosts(BOARD);
+  await client.listPosts(`${BOARD}-other`);
+  await client.getPost("p1", { cache: {} });
+  await client.createPost(BOARD, { title: "T", content: "C" });
+  const before = calls.length;
+  await client.listPosts(BOARD);
+  await client.listPosts(`${BOARD}-other`); // prefix 가 겹쳐도 다른 게시판은 유지
+  await client.getPost("p1", { cache: {} });
+  assert.equal(calls.length - before, 1);
+});
+
+test("댓글 작성 후 그 게시글 댓글 목록 재조회, invalidateQueries() 는 전체 비움", async () => {
+  const { client, calls } = setup(() => ok([]));
+  await client.listComments("p1");
+  await client.createComment("p1", { content: "hi" });
+  await client.listComments("p1");
+  assert.equal(calls.filter((c) => c.url.includes("/public/")).length, 2);
+  client.invalidateQueries();
+  await client.listComments("p1");
+  assert.equal(calls.filter((c) => c.url.includes("/public/")).length, 3);
+});
+
+test("한 호출부의 abort 는 공유 요청을 끊지 않음 — 응답은 캐시에 남는다", async () => {
+  let release;
+  const { client, calls } = setup(() => new Promise((r) => { release = () => r(ok({ items: [] })); }));
+  const ctrl = new AbortController();
+  const aborted = client.listFaqPosts({}, { signal: ctrl.signal });
+  const other = client.listFaqPosts();
+  ctrl.abort();
+  await assert.rejects(() => aborted, (e) => e.errorCode === "ABORTED");
+  release();
+  await other;
+  await client.listFaqPosts();
+  assert.equal(calls.length, 1);
+});
+
+test("한 prefix 무효화는 다른 키의 진행 중 응답을 버리지 않는다", async () => {
+  const pending = [];
+  const { client, calls } = setup((url) => new Promise((r) => pending.push(() => r(ok({ items: [], url })))));
+  const faq = client.listFaqPosts();
+  const notice = client.listNoticePosts();
+  client.invalidateQueries(`/public/boards/notice`);
+  pending.forEach((release) => release());
+  await Promise.all([faq, notice]);
+  await client.listFaqPosts(); // 캐시됨
+  assert.equal(calls.length, 2);
+  const again = client.listNoticePosts(); // 무효화 전에 출발한 응답은 캐시되지 않았다
+  pending.at(-1)();
+  await again;
+  assert.equal(calls.length, 3);
+});
+
+test("로그아웃·세션 만료 등 인증 전환은 조회 캐시를 비운다", async () => {
+  const { client, calls } = setup((url) => {
+    if (url.endsWith("/account/info")) return ok({ id: "u1" });
+    if (url.endsWith("/expired")) return { status: 401, json: async () => ({ result: "FAIL", errorCode: "TOKEN_EXPIRED" }) };
+    return ok({ items: [] });
+  });
+  const lists = () => calls.filter((c) => c.url.includes("/posts")).length;
+  await client.listPosts(BOARD);
+  await client.logout();
+  await client.listPosts(BOARD);
+  assert.equal(lists(), 2);
+
+  await client.checkAuth();
+  await client.request("/expired").catch(() => {});
+  await client.listPosts(BOARD);
+  assert.equal(lists(), 3);
+});
+
+test("fetchPage — 백그라운드 재조회 결과도 Page 모양으로 onUpdate", async () => {
+  let n = 0;
+  const { client } = setup(() => ok({ items: [{ id: `v${++n}` }], total: 1 }));
+  const source = (o, c) => client.listPosts(BOARD, o, c);
+  await fetchPage(source, 1, { pageSize: 10 });
+  const updated = await new Promise((resolve) => {
+    fetchPage(source, 1, { pageSize: 10 }, { cache: { ttlMs: 0, onUpdate: resolve } });
+  });
+  assert.equal(updated.page, 1);
+  assert.equal(updated.pageCount, 1);
+  assert.equal(updated.items[0].id, "v2");
+});
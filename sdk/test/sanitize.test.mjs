@@ -0,0 +1,68 @@
+/** 본문 HTML 정화 — 허용 목록, 스크립트/이벤트 제거, 링크·이미지 주소 제한, 태그 균형. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { sanitizeHtml, sanitizeUrl, safeReturnUrl } from "../dist/baas-core.esm.js";
+
+test("에디터 서식은 유지, 엔티티는 그대로", () => {
+  const html = '<h2>제목</h2><p style="text-align: center">가&nbsp;나 &amp; <strong>굵게</strong><br></p><ul><li>하나</li></ul>';
+  assert.equal(sanitizeHtml(html), html);
+  assert.equal(sanitizeHtml(null), "");
+  assert.equal(sanitizeHtml("1 < 2 & 3 > 2"), "1 &lt; 2 &amp; 3 &gt; 2");
+});
+
+test("script/style/iframe 은 내용째, 이벤트 속성·모르는 태그는 제거", () => {
+  assert.equal(sanitizeHtml('<p>a<script>alert(1)</script>b</p>'), "<p>ab</p>");
+  assert.equal(sanitizeHtml('<style>body{display:none}</style><iframe src="//x"></iframe>ok'), "ok");
+  assert.equal(sanitizeHtml('<div onclick="x()" onmouseover=y>t</div>'), "<div>t</div>");
+  assert.equal(sanitizeHtml("<font color=red>빨강</font><!-- 주석 -->"), "빨강");
+  assert.equal(sanitizeHtml("<svg><script>alert(1)</script></svg>"), "");
+  assert.equal(sanitizeHtml("<script>never closed"), "");
+});
+
+test("링크 — 위험한 스킴 제거, rel=noopener 강제, 외부 링크는 새 탭", () => {
+  assert.equal(
+    sanitizeHtml('<a href="https://ex.com" target="_self">x</a>'),
+    '<a href="https://ex.com" target="_blank" rel="noopener noreferrer">x</a>'
+  );
+  assert.equal(sanitizeHtml('<a href="/posts/1">x</a>'), '<a href="/posts/1" rel="noopener noreferrer">x</a>');
+  assert.equal(sanitizeHtml('<a href="javascript:alert(1)">x</a>'), "<a>x</a>");
+  assert.equal(sanitizeHtml('<a href="jav&#x61;script:alert(1)">x</a>'), "<a>x</a>");
+  assert.equal(sanitizeHtml('<a href="java\tscript:alert(1)">x</a>'), "<a>x</a>");
+  assert.equal(
+    sanitizeHtml('<a href="https://ex.com">x</a>', { externalLinksInNewTab: false }),
+    '<a href="https://ex.com" rel="noopener noreferrer">x</a>'
+  );
+});
+
+test("이미지 — https 만, imageHosts 로 호스트 제한, 막히면 태그째 제거", () => {
+  assert.equal(sanitizeHtml('<img src="https://cdn.ex.com/a.png" alt="a" onerror="x()">'), '<img src="https://cdn.ex.com/a.png" alt="a">');
+  assert.equal(sanitizeHtml('<img src="http://ex.com/a.png">'), "");
+  assert.equal(sanitizeHtml('<img src="data:image/svg+xml;base64,AAAA">'), "");
+  const opts = { imageHosts: ["cdn.ex.com"] };
+  assert.equal(sanitizeHtml('<img src="https://evil.com/a.png">', opts), "");
+  assert.equal(sanitizeHtml('<img src="//evil.com/a.png">', opts), "");
+  assert.equal(sanitizeHtml('<img src="https://cdn.ex.com/a.png">', opts), '<img src="https://cdn.ex.com/a.png">');
+});
+
+test("style 은 허용 속성만, 짝 없는 닫는 태그는 버리고 열린 태그는 닫는다", () => {
+  assert.equal(
+    sanitizeHtml('<span style="color: red; position: fixed; background-image: url(x)">a</span>'),
+    '<span style="color: red">a</span>'
+  );
+  assert.equal(sanitizeHtml("</div><p><b>a"), "<p><b>a</b></p>");
+  assert.equal(sanitizeHtml('<p title="a&quot;><script>">t</p>'), '<p title="a&quot;&gt;&lt;script&gt;">t</p>');
+});
+
+test("sanitizeUrl — 링크 게시글 주소 검사", () => {
+  assert.equal(sanitizeUrl("https://ex.com/a"), "https://ex.com/a");
+  assert.equal(sanitizeUrl(" JavaScript:alert(1)"), null);
+  assert.equal(sanitizeUrl("mailto:a@ex.com"), "mailto:a@ex.com");
+  assert.equal(sanitizeUrl("/\\evil.com", "image", { imageHosts: ["cdn.ex.com"] }), null);
+});
+
+test("safeReturnUrl — 같은 출처 상대 경로만, 나머지는 \"/\"", () => {
+  assert.equal(safeReturnUrl("/mypage?tab=1#top"), "/mypage?tab=1#top");
+  for (const bad of ["https://evil.com", "//evil.com", "/\\evil.com", "/\t/evil.com", "javascript:alert(1)", "mypage", "", null, undefined]) {
+    assert.equal(safeReturnUrl(bad), "/", String(bad));
+  }
+});
@@ -0,0 +1,78 @@
+/** 첨부 업로드 — presign 발급 → S3 PUT 2단계 + 사전 검증. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { init, uploadFiles, BaasError } from "../dist/baas-core.esm.js";
+
+const PROJECT = "b59f841d-bfa3-4d63-8969-70420a4298f6";
+
+function file(name, size, type) {
+  return new File([new Uint8Array(size)], name, { type });
+}
+
+test("uploadFiles — 파일당 presign(POST) 후 presign_url 로 PUT, file_id/cdn_url 수집", async () => {
+  init({ projectId: PROJECT, baseUrl: "https://api.test" });
+  const calls = [];
+  let n = 0;
+  globalThis.fetch = async (url, opts) => {
+    calls.push({ url, method: opts.method, headers: opts.headers, body: opts.body });
+    if (url.startsWith("https://api.test/upload/presign")) {
+      n++;
+      // presign 은 result 가 boolean 인 envelope
+      return { ok: true, status: 200, json: async () => ({ result: true, data: { original: { presign_url: `https://s3.test/${n}`, cdn_url: `https://cdn.test/${n}` }, file_id: 100 + n } }) };
+    }
+    return { ok: true, status: 200 };
+  };
+  const progress = [];
+  const res = await uploadFiles([file("a.png", 30, "image/png"), file("보고서.pdf", 10, "application/pdf")], {
+    onProgress: (p) => progress.push([p.index, p.loaded, p.overall]),
+  });
+
+  assert.deepEqual(res.files, [
+    { id: 101, file_name: "a.png", url: "https://cdn.test/1" },
+    { id: 102, file_name: "보고서.pdf", url: "https://cdn.test/2" },
+  ]);
+  assert.equal(calls[0].url, `https://api.test/upload/presign?project_id=${PROJECT}`);
+  assert.deepEqual(JSON.parse(calls[0].body), {
+    category: "board_attachment",
+    filename: "a.png",
+    content_type: "image/png",
+    size: 30,
+    with_compressed: false,
+  });
+  assert.equal(calls[1].url, "https://s3.test/1");
+  assert.equal(calls[1].method, "PUT");
+  assert.equal(calls[1].headers["Content-Type"], "image/png"); // presign 의 content_type 과 일치해야 함
+  assert.deepEqual(progress, [[0, 30, 0.75], [1, 10, 1]]);
+});
+
+test("S3 PUT 실패는 BaasError 로", async () => {
+  init({ projectId: PROJECT, baseUrl: "https://api.test" });
+  globalThis.fetch = async (url) =>
+    url.includes("/upload/presign")
+      ? { status: 200, json: async () => ({ result: true, data: { original: { presign_url: "https://s3.test/x", cdn_url: "" }, file_id: 1 } }) }
+      : { ok: false, status: 403 };
+  const err = await uploadFiles([file("a.png", 1, "image/png")]).catch((e) => e);
+  assert.ok(err instanceof BaasError);
+  assert.equal(err.status, 403);
+});
+
+test("사전 검증 — 첨부 비허용 게시판·실행 파일·크기·MIME 은 요청 없이 VALIDATION_ERROR", async () => {
+  init({ projectId: PROJECT });
+  let called = false;
+  globalThis.fetch = async () => { called = true; };
+
+  const cases = [
+    [[file("a.png", 1, "image/png")], { settings: { allow_attachment: false } }],
+    [[file("run.exe", 1, "application/octet-stream")], {}],
+    [[file("big.png", 11 * 1024 * 1024, "image/png")], {}],
+    [[file("a.pdf", 1, "application/pdf")], { accept: ["image/*"] }],
+  ];
+  for (const [files, opts] of cases) {
+    const err = await uploadFiles(files, opts).catch((e) => e);
+    assert.equal(err.errorCode, "VALIDATION_ERROR");
+    assert.equal(err.status, 0);
+    assert.equal(err.fieldErrors.files.length, 1);
+  }
+  assert.equal(called, false);
+  await uploadFiles([], { accept: ["image/*"] }); // 빈 선택은 통과
+});
@@ -0,0 +1,89 @@
+/** 회원 입력 사전 검증 — 가입 규칙·전화번호 정규화/표기, core signup 은 입력을 그대로 보내는지. */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  init,
+  signup,
+  validateSignup,
+  validatePassword,
+  normalizePhone,
+  formatPhone,
+  isValidPhone,
+} from "../dist/baas-core.esm.js";
+
+const PROJECT = "b59f841d-bfa3-4d63-8969-70420a4298f6";
+const VALID = { user_id: "kim@example.com", user_pw: "password1", name: "김철수", phone: "010-1234-5678" };
+
+test("normalizePhone/formatPhone — 하이픈·공백·국가번호, 입력 중 값", () => {
+  assert.equal(normalizePhone("010 1234 5678"), "01012345678");
+  assert.equal(normalizePhone("+82 10-1234-5678"), "01012345678");
+  assert.equal(formatPhone("01012345678"), "010-1234-5678");
+  assert.equal(formatPhone("+82-10-1234-5678"), "010-1234-5678");
+  assert.equal(formatPhone("010"), "010");
+  assert.equal(formatPhone("0101234"), "010-1234");
+  assert.equal(formatPhone("0212345678"), "021-234-5678"); // 10자리는 3-3-4
+  assert.equal(formatPhone("010123456789"), "010-1234-5678"); // 11자리에서 자른다
+  assert.equal(isValidPhone("01012345678"), true);
+  assert.equal(isValidPhone("011-123-4567"), false);
+});
+
+test("국가번호 +82 — 뒤가 0 으로 시작해도 0 을 겹치지 않는다", () => {
+  assert.equal(normalizePhone("8201012345678"), "01012345678");
+  assert.equal(normalizePhone("+82 010-1234-5678"), "01012345678");
+  assert.equal(formatPhone("8201012345678"), "010-1234-5678");
+  assert.equal(formatPhone("+82 10-12"), "010-12"); // 입력 중
+  assert.equal(isValidPhone("+82 10-1234-5678"), true);
+  assert.equal(isValidPhone("+82 010-1234-5678"), true);
+});
+
+test("isValidPhone — 11자리를 넘는 입력은 잘라서 통과시키지 않는다", () => {
+  assert.equal(normalizePhone("010-1234-567890"), "0101234567890");
+  assert.equal(isValidPhone("010-1234-567890"), false);
+  assert.equal(isValidPhone("010123456789"), false);
+  assert.equal(isValidPhone("+82 10-1234-56789"), false);
+  assert.equal(isValidPhone("010-1234-567"), false);
+  assert.deepEqual(Object.keys(validateSignup({ ...VALID, phone: "010-1234-567890" })), ["phone"]);
+});
+
+test("validatePassword — 8자 이상", () => {
+  assert.equal(validatePassword("password1"), null);
+  assert.match(validatePassword("short"), /8자 이상/);
+  assert.match(validatePassword(""), /입력/);
+});
+
+test("validateSignup — 통과하면 빈 객체, 필드별 첫 사유", () => {
+  assert.deepEqual(validateSignup(VALID), {});
+  const errors = validateSignup({ user_id: "kim @x", user_pw: "short", name: " ", phone: "02-123-4567" });
+  assert.deepEqual(Object.keys(errors).sort(), ["name", "phone", "user_id", "user_pw"]);
+  assert.equal(errors.user_pw.length, 1);
+  assert.ok(validateSignup({ ...VALID, user_id: "kim@" }).user_id); // @ 가 있으면 이메일 형식
+  assert.ok(validateSignup({ ...VALID, user_id: "kim" }, { emailId: true }).user_id);
+  assert.ok(validateSignup({ ...VALID, name: "가".repeat(33) }).name);
+  assert.ok(validateSignup({ ...VALID, user_pw_confirm: "password2" }).user_pw_confirm);
+});
+
+test("validateSignup — 약관 동의: 명시적 false 는 거절, requireAgreements 면 누락도 거절", () => {
+  assert.deepEqual(validateSignup(VALID), {});
+  assert.ok(validateSignup({ ...VALID, terms_agreed: false }).terms_agreed);
+  const required = validateSignup(VALID, { requireAgreements: true });
+  assert.deepEqual(Object.keys(required).sort(), ["privacy_agreed", "terms_agreed"]);
+  assert.deepEqual(validateSignup({ ...VALID, terms_agreed: true, privacy_agreed: true }, { requireAgreements: true }), {});
+});
+
+test("signup — core 는 검사·변환 없이 받은 값을 그대로 보낸다(검사는 useSignup)", async () => {
+  init({ projectId: PROJECT, baseUrl: "/aiapp-baas" });
+  const sent = [];
+  globalThis.fetch = async (url, opts) => {
+    sent.push(JSON.parse(opts.body));
+    return { status: 200, json: async () => ({ result: "SUCCESS", data: { id: "u1" } }) };
+  };
+  await signup("kim@example.com", "short", "김철수", "01012345678", { terms_agreed: true });
+  assert.deepEqual(sent[0], {
+    user_id: "kim@example.com",
+    user_pw: "short",
+    name: "김철수",
+    phone: "01012345678",
+    project_id: PROJECT,
+    terms_agreed: true,
+  });
+});